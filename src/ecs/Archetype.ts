@@ -0,0 +1,79 @@
+import {Entity} from './Entity';
+import {Query} from './Query';
+import {Tag} from './Tag';
+
+/**
+ * Archetype groups entities that have identical sets of components and tags.
+ * @internal
+ */
+export class Archetype {
+  public readonly components: Readonly<Record<number, true>>;
+  public readonly tags: ReadonlySet<Tag>;
+  public readonly entities: Map<number, Entity> = new Map();
+  public readonly queries: Query[] = [];
+
+  private readonly _edges: Map<string, ArchetypeEdge> = new Map();
+
+  public constructor(
+    public readonly key: string,
+    components: Record<number, true>,
+    tags: Set<Tag>,
+  ) {
+    this.components = components;
+    this.tags = tags;
+  }
+
+  /**
+   * @internal
+   */
+  public getEdge(key: string): ArchetypeEdge | undefined {
+    return this._edges.get(key);
+  }
+
+  /**
+   * @internal
+   */
+  public setEdge(key: string, edge: ArchetypeEdge): void {
+    this._edges.set(key, edge);
+  }
+}
+
+/**
+ * Transition between two archetypes, that caches queries entity must be added to and removed from, and queries that
+ * must re-notify about the entity, because it's their optional component that is added or removed.
+ * @internal
+ */
+export interface ArchetypeEdge {
+  readonly target: Archetype;
+  version: number;
+  addedTo: Query[];
+  removedFrom: Query[];
+  renotified: Query[];
+}
+
+/**
+ * @internal
+ */
+export function getArchetypeKey(components: Readonly<Record<number, unknown>>, tags: ReadonlySet<Tag>): string {
+  const componentIds = Object.keys(components).map(Number).sort((a, b) => a - b);
+  const tagKeys = Array.from(tags, getTagKey).sort();
+  return componentIds.join(',') + '|' + tagKeys.join(',');
+}
+
+/**
+ * @internal
+ */
+export function getComponentEdgeKey(componentId: number): string {
+  return 'c' + componentId;
+}
+
+/**
+ * @internal
+ */
+export function getTagEdgeKey(tag: Tag): string {
+  return 't' + getTagKey(tag);
+}
+
+function getTagKey(tag: Tag): string {
+  return typeof tag === 'number' ? String(tag) : JSON.stringify(tag);
+}
@@ -0,0 +1,314 @@
+import {Entity} from './Entity';
+import {ComponentRegistration, ComponentRegistry, ComponentSchema} from './ComponentRegistry';
+import {ILinkedComponent, isLinkedComponent} from './LinkedComponent';
+import {BinaryReader, BinaryWriter} from '../utils/Binary';
+import {Class} from '../utils/Class';
+
+const FORMAT_VERSION = 1;
+const NO_ENTITY = -1;
+const MAX_COUNT = 0xFFFF;
+
+const LINKED_FLAG = 1;
+const CLASS_FLAG = 2;
+
+const NUMBER_TAG = 0;
+const STRING_TAG = 1;
+
+interface EntityReference {
+  readonly component: Record<string, unknown>;
+  readonly field: string;
+  readonly id: number;
+}
+
+/**
+ * Writes entities and the shared config in the binary format.
+ *
+ * Layout (little-endian):
+ * - `uint8` format version, `uint32` registry version, `uint32` number of entities
+ * - entities, followed by the shared config. Every entity is written as `uint32` id, `uint16` number of components,
+ *  components, `uint16` number of tags, tags, `int32` parent id, `uint16` number of relations and relations.
+ * - component is written as `uint16` type id, `uint8` flags, optional `uint16` type id of the component class, optional
+ *  id of the linked component and fields declared in the schema.
+ * - tag is written as `uint8` kind and `float64` number or string.
+ * - relation is written as `uint16` type id and `uint32` target id.
+ *
+ * @throws Throws error if the entity has more than 65535 components, tags or relations
+ * @internal
+ */
+export function encodeEntities(
+  entities: ReadonlyArray<Entity>,
+  sharedConfig: Entity,
+  registry: ComponentRegistry,
+): Uint8Array {
+  const writer = new BinaryWriter();
+  const ids = new Set(entities.map(entity => entity.id));
+  writer.writeUint8(FORMAT_VERSION);
+  writer.writeUint32(registry.version);
+  writer.writeUint32(entities.length);
+  for (const entity of entities) {
+    writeEntity(writer, entity, registry, ids);
+  }
+  writeEntity(writer, sharedConfig, registry, ids);
+  return writer.bytes;
+}
+
+/**
+ * Reads entities written by {@link encodeEntities}, components and tags of the shared config are added to the passed
+ * shared config.
+ * @internal
+ */
+export function decodeEntities(bytes: Uint8Array, sharedConfig: Entity, registry: ComponentRegistry): Entity[] {
+  const reader = new BinaryReader(bytes);
+  const formatVersion = reader.readUint8();
+  if (formatVersion !== FORMAT_VERSION) {
+    throw new Error(`Binary format version ${formatVersion} is not supported`);
+  }
+  const version = reader.readUint32();
+  if (version !== registry.version) {
+    throw new Error(`Binary document version ${version} doesn't match the registry version ${registry.version}`);
+  }
+  const count = reader.readUint32();
+  const entities: Map<number, Entity> = new Map();
+  const parents: Map<Entity, number> = new Map();
+  const relations: Array<[Entity, ComponentRegistration<unknown>, number]> = [];
+  const references: EntityReference[] = [];
+  for (let i = 0; i <= count; i++) {
+    const entity = i < count ? new Entity() : sharedConfig;
+    const id = reader.readUint32();
+    if (i < count) {
+      entities.set(id, entity);
+    }
+    const componentsCount = reader.readUint16();
+    for (let j = 0; j < componentsCount; j++) {
+      readComponent(reader, entity, registry, references);
+    }
+    const tagsCount = reader.readUint16();
+    for (let j = 0; j < tagsCount; j++) {
+      entity.add(reader.readUint8() === NUMBER_TAG ? reader.readFloat64() : reader.readString()!);
+    }
+    const parent = reader.readInt32();
+    if (parent !== NO_ENTITY) {
+      parents.set(entity, parent);
+    }
+    const relationsCount = reader.readUint16();
+    for (let j = 0; j < relationsCount; j++) {
+      relations.push([entity, getRegistration(registry, reader.readUint16()), reader.readUint32()]);
+    }
+  }
+  for (const reference of references) {
+    reference.component[reference.field] = reference.id === NO_ENTITY
+      ? undefined
+      : getEntity(entities, reference.id);
+  }
+  for (const [entity, parent] of parents) {
+    entity.setParent(getEntity(entities, parent));
+  }
+  for (const [entity, registration, target] of relations) {
+    entity.addRelation(registration.componentClass, getEntity(entities, target));
+  }
+  return Array.from(entities.values());
+}
+
+function writeEntity(writer: BinaryWriter, entity: Entity, registry: ComponentRegistry, ids: ReadonlySet<number>): void {
+  writer.writeUint32(entity.id);
+  const components: Array<[unknown, ComponentRegistration<unknown>]> = [];
+  for (const key of Object.keys(entity.components)) {
+    const component = entity.components[Number(key)];
+    const registration = registry.getById(Number(key));
+    if (registration === undefined) {
+      throw new Error(`Component class "${(component as object).constructor.name}" is not registered`);
+    }
+    if (isLinkedComponent(component)) {
+      entity.iterate(registration.componentClass, (value) => components.push([value, registration]));
+    } else {
+      components.push([component, registration]);
+    }
+  }
+  writeCount(writer, entity, components.length, 'components');
+  for (const [component, registration] of components) {
+    writeComponent(writer, component, registration, registry, ids);
+  }
+  writeCount(writer, entity, entity.tags.size, 'tags');
+  for (const tag of entity.tags) {
+    if (typeof tag === 'number') {
+      writer.writeUint8(NUMBER_TAG);
+      writer.writeFloat64(tag);
+    } else {
+      writer.writeUint8(STRING_TAG);
+      writer.writeString(tag);
+    }
+  }
+  const parent = entity.parent;
+  writer.writeInt32(parent !== undefined && ids.has(parent.id) ? parent.id : NO_ENTITY);
+  const relations: Array<[number, number]> = [];
+  for (const relation of entity.relations) {
+    const registration = registry.getByClass(relation);
+    if (registration === undefined) {
+      throw new Error(`Relation class "${relation.name}" is not registered`);
+    }
+    for (const target of entity.getRelationTargets(relation)) {
+      if (ids.has(target.id)) {
+        relations.push([registration.typeId, target.id]);
+      }
+    }
+  }
+  writeCount(writer, entity, relations.length, 'relations');
+  for (const [typeId, target] of relations) {
+    writer.writeUint16(typeId);
+    writer.writeUint32(target);
+  }
+}
+
+function writeCount(writer: BinaryWriter, entity: Entity, count: number, name: string): void {
+  if (count > MAX_COUNT) {
+    throw new Error(`Entity ${entity.id} has ${count} ${name}, but at most ${MAX_COUNT} can be serialized`);
+  }
+  writer.writeUint16(count);
+}
+
+function writeComponent(
+  writer: BinaryWriter,
+  component: unknown,
+  registration: ComponentRegistration<unknown>,
+  registry: ComponentRegistry,
+  ids: ReadonlySet<number>,
+): void {
+  let componentRegistration = registration;
+  const componentClass = (component as object).constructor as Class<unknown>;
+  if (componentClass !== registration.componentClass) {
+    componentRegistration = registry.getByClass(componentClass) ?? registration;
+  }
+  const linked = isLinkedComponent(component);
+  writer.writeUint16(registration.typeId);
+  writer.writeUint8((linked ? LINKED_FLAG : 0) | (componentRegistration !== registration ? CLASS_FLAG : 0));
+  if (componentRegistration !== registration) {
+    writer.writeUint16(componentRegistration.typeId);
+  }
+  if (linked) {
+    writer.writeString((component as ILinkedComponent).id);
+  }
+  const schema = getSchema(componentRegistration);
+  const data = component as Record<string, unknown>;
+  for (const field of Object.keys(schema)) {
+    const value = data[field];
+    switch (schema[field]) {
+      case 'int8':
+        writer.writeInt8(value as number);
+        break;
+      case 'uint8':
+        writer.writeUint8(value as number);
+        break;
+      case 'int16':
+        writer.writeInt16(value as number);
+        break;
+      case 'uint16':
+        writer.writeUint16(value as number);
+        break;
+      case 'int32':
+        writer.writeInt32(value as number);
+        break;
+      case 'uint32':
+        writer.writeUint32(value as number);
+        break;
+      case 'float32':
+        writer.writeFloat32(value as number);
+        break;
+      case 'float64':
+        writer.writeFloat64(value as number);
+        break;
+      case 'string':
+        writer.writeString(value as string | undefined);
+        break;
+      case 'boolean':
+        writer.writeBoolean(value as boolean);
+        break;
+      case 'entity':
+        writer.writeInt32(value instanceof Entity && ids.has(value.id) ? value.id : NO_ENTITY);
+        break;
+    }
+  }
+}
+
+function readComponent(
+  reader: BinaryReader,
+  entity: Entity,
+  registry: ComponentRegistry,
+  references: EntityReference[],
+): void {
+  const registration = getRegistration(registry, reader.readUint16());
+  const flags = reader.readUint8();
+  const componentRegistration = (flags & CLASS_FLAG) !== 0
+    ? getRegistration(registry, reader.readUint16())
+    : registration;
+  const component = Object.create(componentRegistration.componentClass.prototype);
+  if ((flags & LINKED_FLAG) !== 0) {
+    component.id = reader.readString();
+    component.next = undefined;
+  }
+  const schema = getSchema(componentRegistration);
+  for (const field of Object.keys(schema)) {
+    switch (schema[field]) {
+      case 'int8':
+        component[field] = reader.readInt8();
+        break;
+      case 'uint8':
+        component[field] = reader.readUint8();
+        break;
+      case 'int16':
+        component[field] = reader.readInt16();
+        break;
+      case 'uint16':
+        component[field] = reader.readUint16();
+        break;
+      case 'int32':
+        component[field] = reader.readInt32();
+        break;
+      case 'uint32':
+        component[field] = reader.readUint32();
+        break;
+      case 'float32':
+        component[field] = reader.readFloat32();
+        break;
+      case 'float64':
+        component[field] = reader.readFloat64();
+        break;
+      case 'string':
+        component[field] = reader.readString();
+        break;
+      case 'boolean':
+        component[field] = reader.readBoolean();
+        break;
+      case 'entity':
+        references.push({component, field, id: reader.readInt32()});
+        break;
+    }
+  }
+  if ((flags & LINKED_FLAG) !== 0) {
+    entity.append(component, registration.componentClass as Class<ILinkedComponent>);
+  } else {
+    entity.add(component, registration.componentClass);
+  }
+}
+
+function getSchema(registration: ComponentRegistration<unknown>): ComponentSchema {
+  if (registration.schema === undefined) {
+    throw new Error(`Component "${registration.name}" has no schema`);
+  }
+  return registration.schema;
+}
+
+function getRegistration(registry: ComponentRegistry, typeId: number): ComponentRegistration<unknown> {
+  const registration = registry.getByTypeId(typeId);
+  if (registration === undefined) {
+    throw new Error(`Component type id ${typeId} is not registered`);
+  }
+  return registration;
+}
+
+function getEntity(entities: ReadonlyMap<number, Entity>, id: number): Entity {
+  const entity = entities.get(id);
+  if (entity === undefined) {
+    throw new Error(`Serialized entity with id ${id} is not found`);
+  }
+  return entity;
+}
@@ -0,0 +1,161 @@
+import {Engine} from './Engine';
+import {Entity} from './Entity';
+import {Class} from '../utils/Class';
+import {Tag} from './Tag';
+
+/**
+ * Sync point, where the {@link CommandBuffer} of the engine is played back during {@link Engine.update}
+ * - `system` - after the update of every system.
+ * - `update` - after all systems are updated, before entities marked for safe removal are removed.
+ * @see {@link Engine.flushCommands}
+ */
+export type CommandSyncPoint = 'system' | 'update';
+
+type Command = (engine: Engine) => void;
+
+/**
+ * Command buffer records structural changes of entities and plays them back later.
+ * It makes possible to add and remove components, tags and entities while iterating over the query, without changing
+ * the list of entities being iterated.
+ *
+ * Commands are played back in the order they were recorded. Commands recorded during playback are played back within
+ * the same playback.
+ *
+ * @example
+ * ```ts
+ * class DeathSystem extends IterativeSystem {
+ *   public constructor() {
+ *     super(new QueryBuilder().contains(Health));
+ *   }
+ *
+ *   protected updateEntity(entity: Entity): void {
+ *     if (entity.get(Health)!.value <= 0) {
+ *       this.commands
+ *         .destroyEntity(entity)
+ *         .createEntity(new Entity().add(new Explosion()));
+ *     }
+ *   }
+ * }
+ * ```
+ */
+export class CommandBuffer {
+  private _commands: Command[] = [];
+
+  /**
+   * Gets a number of the recorded commands
+   */
+  public get length(): number {
+    return this._commands.length;
+  }
+
+  /**
+   * Gets a value indicating that there are no recorded commands
+   */
+  public get isEmpty(): boolean {
+    return this._commands.length === 0;
+  }
+
+  /**
+   * Records adding of the component to the entity
+   *
+   * @param {Entity} entity Entity
+   * @param {T} component Component instance
+   * @param {K} resolveClass Class that should be used as resolving class
+   * @returns {CommandBuffer} Reference to the buffer itself. It helps to build chain of calls.
+   * @see {@link Entity.add}
+   */
+  public addComponent<T extends K, K extends unknown>(
+    entity: Entity,
+    component: NonNullable<T>,
+    resolveClass?: Class<K>,
+  ): CommandBuffer {
+    this._commands.push(() => entity.add(component, resolveClass));
+    return this;
+  }
+
+  /**
+   * Records removal of the component from the entity
+   *
+   * @param {Entity} entity Entity
+   * @param {Class<T>} componentClass Component class
+   * @returns {CommandBuffer} Reference to the buffer itself. It helps to build chain of calls.
+   * @see {@link Entity.remove}
+   */
+  public removeComponent<T>(entity: Entity, componentClass: Class<T>): CommandBuffer {
+    this._commands.push(() => entity.remove(componentClass));
+    return this;
+  }
+
+  /**
+   * Records adding of the tag to the entity
+   *
+   * @param {Entity} entity Entity
+   * @param {Tag} tag Tag
+   * @returns {CommandBuffer} Reference to the buffer itself. It helps to build chain of calls.
+   * @see {@link Entity.addTag}
+   */
+  public addTag(entity: Entity, tag: Tag): CommandBuffer {
+    this._commands.push(() => entity.addTag(tag));
+    return this;
+  }
+
+  /**
+   * Records removal of the tag from the entity
+   *
+   * @param {Entity} entity Entity
+   * @param {Tag} tag Tag
+   * @returns {CommandBuffer} Reference to the buffer itself. It helps to build chain of calls.
+   * @see {@link Entity.removeTag}
+   */
+  public removeTag(entity: Entity, tag: Tag): CommandBuffer {
+    this._commands.push(() => entity.removeTag(tag));
+    return this;
+  }
+
+  /**
+   * Records adding of the entity to the engine.
+   * The entity can be filled with components right away, it will be added to the engine during playback.
+   *
+   * @param {Entity} entity Entity to add
+   * @returns {CommandBuffer} Reference to the buffer itself. It helps to build chain of calls.
+   * @see {@link Engine.addEntity}
+   */
+  public createEntity(entity: Entity): CommandBuffer {
+    this._commands.push((engine) => engine.addEntity(entity));
+    return this;
+  }
+
+  /**
+   * Records removal of the entity from the engine
+   *
+   * @param {Entity} entity Entity to remove
+   * @returns {CommandBuffer} Reference to the buffer itself. It helps to build chain of calls.
+   * @see {@link Engine.removeEntity}
+   */
+  public destroyEntity(entity: Entity): CommandBuffer {
+    this._commands.push((engine) => engine.removeEntity(entity));
+    return this;
+  }
+
+  /**
+   * Plays back all recorded commands and clears the buffer
+   *
+   * @param {Engine} engine Engine, that entities are added to and removed from
+   */
+  public playback(engine: Engine): void {
+    while (this._commands.length > 0) {
+      const commands = this._commands;
+      this._commands = [];
+      for (const command of commands) {
+        command(engine);
+      }
+    }
+  }
+
+  /**
+   * Removes all recorded commands without playing them back
+   */
+  public clear(): void {
+    this._commands.length = 0;
+  }
+}
@@ -0,0 +1,299 @@
+import {Class} from '../utils/Class';
+import {getComponentId} from './ComponentId';
+import {SerializedComponent, SerializedEngine, SerializedEntity} from './Serialization';
+
+/**
+ * Converts components of the specific class to JSON-compatible data and back.
+ * @see {@link ComponentRegistry.register}
+ */
+export interface ComponentSerializer<T> {
+  /**
+   * Converts component to JSON-compatible data
+   * @param component Component instance
+   */
+  serialize(component: T): unknown;
+  /**
+   * Creates component from the data returned by {@link serialize}
+   * @param data Serialized data
+   */
+  deserialize(data: unknown): T;
+}
+
+/**
+ * Type of the component field in the binary format
+ * - `int8`..`float64` - numbers of the corresponding size
+ * - `string` - UTF-8 string, can be `undefined`
+ * - `boolean` - boolean value
+ * - `entity` - reference to the serialized entity, can be `undefined`
+ * @see {@link Engine.serializeBinary}
+ */
+export type FieldType =
+  | 'int8'
+  | 'uint8'
+  | 'int16'
+  | 'uint16'
+  | 'int32'
+  | 'uint32'
+  | 'float32'
+  | 'float64'
+  | 'string'
+  | 'boolean'
+  | 'entity';
+
+/**
+ * Field schema of the component, where key is the name of the field, and value is its type.
+ * Fields are written in the order they are declared.
+ * @see {@link Engine.serializeBinary}
+ */
+export type ComponentSchema = Readonly<Record<string, FieldType>>;
+
+/**
+ * Options of the component class registration
+ * @see {@link ComponentRegistry.register}
+ */
+export interface ComponentRegistrationOptions<T> {
+  /**
+   * Serializer of the components, if it's not defined - own properties of the component are serialized
+   */
+  serializer?: ComponentSerializer<T>;
+  /**
+   * Current version of the component data, `0` by default.
+   * Components saved with older versions are migrated with {@link ComponentRegistry.addComponentMigration}.
+   */
+  version?: number;
+  /**
+   * Field schema of the component, that is required for the binary format
+   * @see {@link Engine.serializeBinary}
+   */
+  schema?: ComponentSchema;
+}
+
+/**
+ * Migration of the serialized document from one version to the next one.
+ * It can modify the passed document or return a new one.
+ * @see {@link ComponentRegistry.addMigration}
+ */
+export type DocumentMigration = (document: SerializedEngine) => SerializedEngine;
+
+/**
+ * Migration of the serialized component from one version to the next one.
+ * It returns the migrated component, several components if it was split, or an empty array if it was dropped.
+ * Returned components of the same type get the next version, components of other types keep their `version` or get the
+ * current version of their type, if it's not specified.
+ * @see {@link ComponentRegistry.addComponentMigration}
+ */
+export type ComponentMigration = (
+  component: SerializedComponent,
+  entity: SerializedEntity,
+) => SerializedComponent | SerializedComponent[];
+
+/**
+ * Component class registered in the {@link ComponentRegistry}
+ */
+export interface ComponentRegistration<T> {
+  /**
+   * Stable name of the component class, that is used in serialized documents
+   */
+  readonly name: string;
+  /**
+   * Component class
+   */
+  readonly componentClass: Class<T>;
+  /**
+   * Serializer of the components, if it's not defined - own properties of the component are serialized
+   */
+  readonly serializer?: ComponentSerializer<T>;
+  /**
+   * Current version of the component data
+   */
+  readonly version: number;
+  /**
+   * Field schema of the component
+   */
+  readonly schema?: ComponentSchema;
+  /**
+   * Identifier of the component class in the binary format. It's the index of the class in the order of registration.
+   */
+  readonly typeId: number;
+}
+
+/**
+ * Component registry maps stable names to component and relation classes.
+ * Component identifiers assigned by {@link getComponentId} differ between runs, so serialized documents refer to
+ * classes by their registered names.
+ *
+ * @example
+ * ```ts
+ * const registry = new ComponentRegistry()
+ *   .register('position', Position)
+ *   .register('view', View, {
+ *     serialize: (view) => view.assetName,
+ *     deserialize: (data) => new View(data as string),
+ *   });
+ * ```
+ */
+export class ComponentRegistry {
+  private readonly _byName: Map<string, ComponentRegistration<unknown>> = new Map();
+  private readonly _byId: Map<number, ComponentRegistration<unknown>> = new Map();
+  private readonly _byTypeId: Array<ComponentRegistration<unknown>> = [];
+  private readonly _migrations: Map<number, DocumentMigration> = new Map();
+  private readonly _componentMigrations: Map<string, Map<number, ComponentMigration>> = new Map();
+
+  /**
+   * Initializes registry
+   * @param version Current version of the serialized documents, documents saved with older versions are migrated with
+   *  {@link addMigration}
+   */
+  public constructor(public readonly version: number = 0) {
+  }
+
+  /**
+   * Registers component or relation class under the stable name
+   *
+   * @throws Throws error if the name or the class is already registered
+   * @param {string} name Stable name of the class
+   * @param {Class<T>} componentClass Component or relation class
+   * @param {ComponentSerializer<T> | ComponentRegistrationOptions<T>} options Custom serializer of the components or
+   *  registration options
+   * @returns {ComponentRegistry} Reference to the registry itself. It helps to build chain of calls.
+   */
+  public register<T>(
+    name: string,
+    componentClass: Class<T>,
+    options: ComponentSerializer<T> | ComponentRegistrationOptions<T> = {},
+  ): ComponentRegistry {
+    if (this._byName.has(name)) {
+      throw new Error(`Component name "${name}" is already registered`);
+    }
+    const id = getComponentId(componentClass, true)!;
+    if (this._byId.has(id)) {
+      throw new Error(`Component class "${componentClass.name}" is already registered as "${this._byId.get(id)!.name}"`);
+    }
+    const typeId = this._byTypeId.length;
+    const registration: ComponentRegistration<T> = isComponentSerializer(options)
+      ? {name, componentClass, serializer: options, version: 0, typeId}
+      : {
+        name,
+        componentClass,
+        serializer: options.serializer,
+        version: options.version ?? 0,
+        schema: options.schema,
+        typeId,
+      };
+    this._byName.set(name, registration);
+    this._byId.set(id, registration);
+    this._byTypeId.push(registration);
+    return this;
+  }
+
+  /**
+   * Returns registration of the class with specified name
+   * @param {string} name Stable name of the class
+   */
+  public getByName(name: string): ComponentRegistration<unknown> | undefined {
+    return this._byName.get(name);
+  }
+
+  /**
+   * Returns registration of the specified class
+   * @param {Class<T>} componentClass Component or relation class
+   */
+  public getByClass<T>(componentClass: Class<T>): ComponentRegistration<T> | undefined {
+    const id = getComponentId(componentClass);
+    if (id === undefined) return undefined;
+    return this._byId.get(id) as ComponentRegistration<T> | undefined;
+  }
+
+  /**
+   * Returns registration of the class with specified component identifier
+   * @param {number} id Component identifier
+   * @see {@link getComponentId}
+   */
+  public getById(id: number): ComponentRegistration<unknown> | undefined {
+    return this._byId.get(id);
+  }
+
+  /**
+   * Returns registration of the class with specified identifier in the binary format
+   * @param {number} typeId Identifier of the class in the binary format
+   * @see {@link ComponentRegistration.typeId}
+   */
+  public getByTypeId(typeId: number): ComponentRegistration<unknown> | undefined {
+    return this._byTypeId[typeId];
+  }
+
+  /**
+   * Adds migration of the serialized documents from the specified version to the next one
+   *
+   * @throws Throws error if the migration from this version is already added
+   * @param {number} fromVersion Version of the document, that migration accepts
+   * @param {DocumentMigration} migration Migration function
+   * @returns {ComponentRegistry} Reference to the registry itself. It helps to build chain of calls.
+   * @example
+   * ```ts
+   * const registry = new ComponentRegistry(1)
+   *   .addMigration(0, (document) => {
+   *     document.entities.forEach((entity) => entity.tags = entity.tags.filter((tag) => tag !== 'deprecated'));
+   *     return document;
+   *   });
+   * ```
+   */
+  public addMigration(fromVersion: number, migration: DocumentMigration): ComponentRegistry {
+    if (this._migrations.has(fromVersion)) {
+      throw new Error(`Migration of the document from version ${fromVersion} is already added`);
+    }
+    this._migrations.set(fromVersion, migration);
+    return this;
+  }
+
+  /**
+   * Adds migration of the serialized components with specified name from the specified version to the next one
+   *
+   * @throws Throws error if the migration from this version is already added
+   * @param {string} name Stable name of the component class
+   * @param {number} fromVersion Version of the component, that migration accepts
+   * @param {ComponentMigration} migration Migration function
+   * @returns {ComponentRegistry} Reference to the registry itself. It helps to build chain of calls.
+   * @example
+   * ```ts
+   * const registry = new ComponentRegistry()
+   *   .register('position', Position, {version: 1})
+   *   .addComponentMigration('position', 0, (component) => {
+   *     const {posX, posY} = component.data as {posX: number, posY: number};
+   *     return {...component, data: {x: posX, y: posY}};
+   *   });
+   * ```
+   */
+  public addComponentMigration(name: string, fromVersion: number, migration: ComponentMigration): ComponentRegistry {
+    let migrations = this._componentMigrations.get(name);
+    if (migrations === undefined) {
+      migrations = new Map();
+      this._componentMigrations.set(name, migrations);
+    }
+    if (migrations.has(fromVersion)) {
+      throw new Error(`Migration of component "${name}" from version ${fromVersion} is already added`);
+    }
+    migrations.set(fromVersion, migration);
+    return this;
+  }
+
+  /**
+   * @internal
+   */
+  public getMigration(fromVersion: number): DocumentMigration | undefined {
+    return this._migrations.get(fromVersion);
+  }
+
+  /**
+   * @internal
+   */
+  public getComponentMigration(name: string, fromVersion: number): ComponentMigration | undefined {
+    return this._componentMigrations.get(name)?.get(fromVersion);
+  }
+}
+
+function isComponentSerializer<T>(
+  options: ComponentSerializer<T> | ComponentRegistrationOptions<T>,
+): options is ComponentSerializer<T> {
+  return typeof (options as ComponentSerializer<T>).serialize === 'function';
+}
@@ -1,9 +1,116 @@
-import {Entity} from './Entity';
-import {System} from './System';
+import {advanceChangeTick, ComponentClone, Entity, EntityState, getChangeTick} from './Entity';
+import {sortSystems, System} from './System';
 import {Class} from '../utils/Class';
 import {Query} from './Query';
 import {Subscription} from './Subscription';
 import {Signal} from '../utils/Signal';
+import {isTag, Tag} from './Tag';
+import {getComponentClass, getComponentId} from './ComponentId';
+import {Archetype, ArchetypeEdge, getArchetypeKey, getComponentEdgeKey, getTagEdgeKey} from './Archetype';
+import {ComponentRegistry} from './ComponentRegistry';
+import {
+  deserializeEntity,
+  deserializeReferences,
+  migrateDocument,
+  SerializedEngine,
+  serializeEntity,
+} from './Serialization';
+import {decodeEntities, encodeEntities} from './BinarySerialization';
+import {CommandBuffer, CommandSyncPoint} from './CommandBuffer';
+import {findSystem, forEachSystem} from './SystemGroup';
+import {Time} from './Time';
+import {AbstractQueryIndex} from './QueryIndex';
+
+/**
+ * Storage mode of the entities in the engine
+ * - `entity` - queries are matching every entity individually.
+ * - `archetype` - entities with identical sets of components and tags are grouped into archetypes. Queries built with
+ *  {@link QueryBuilder} are matched against archetypes, and adding or removing a component moves an entity from one
+ *  archetype to another. Queries with custom predicates are still matching every entity individually.
+ */
+export type EngineStorage = 'entity' | 'archetype';
+
+/**
+ * Default phases of the engine update
+ * @see {@link EngineOptions.phases}
+ */
+export const DEFAULT_PHASES: ReadonlyArray<string> = ['input', 'preUpdate', 'update', 'postUpdate', 'render'];
+
+/**
+ * Phase, that systems are added to if the phase is not specified
+ * @see {@link Engine.addSystem}
+ */
+export const DEFAULT_PHASE = 'update';
+
+/**
+ * Engine configuration
+ */
+export interface EngineOptions {
+  /**
+   * Storage mode of the entities, `entity` by default
+   * @see EngineStorage
+   */
+  storage?: EngineStorage;
+  /**
+   * Sync point, where the command buffer is played back during the update, `update` by default
+   * @see CommandSyncPoint
+   */
+  syncPoint?: CommandSyncPoint;
+  /**
+   * Names of the phases in the order they are updated, {@link DEFAULT_PHASES} by default
+   * @see {@link Engine.addSystem}
+   */
+  phases?: ReadonlyArray<string>;
+  /**
+   * Time step in seconds, that systems of the fixed loop are updated with, `1 / 60` by default
+   * @see {@link System.updateLoop}
+   */
+  fixedTimeStep?: number;
+  /**
+   * Maximum number of fixed steps per update, `5` by default.
+   * Time that exceeds it is dropped, so slow updates don't cause more and more fixed steps.
+   */
+  maxFixedSteps?: number;
+}
+
+/**
+ * Saved state of the engine. It's an opaque handle, that can be restored only by the engine that saved it.
+ * @see {@link Engine.saveState}, {@link Engine.restoreState}
+ */
+export interface EngineState {
+  /**
+   * @internal
+   */
+  readonly entities: ReadonlyArray<[Entity, EntityState]>;
+  /**
+   * @internal
+   */
+  readonly sharedConfig: EntityState;
+  /**
+   * @internal
+   */
+  readonly removalRequested: ReadonlyArray<number>;
+  /**
+   * @internal
+   */
+  readonly queries: ReadonlyMap<Query, ReadonlyArray<Entity>>;
+  /**
+   * @internal
+   */
+  readonly systems: ReadonlyMap<System, {readonly lastRunTick: number, readonly state: unknown}>;
+  /**
+   * @internal
+   */
+  readonly changeTick: number;
+  /**
+   * @internal
+   */
+  readonly fixedTime: number;
+  /**
+   * @internal
+   */
+  readonly time: Time;
+}
 
 /**
  * Engine represents game state, and provides entities update loop on top of systems.
@@ -17,20 +124,49 @@ export class Engine {
    * Signal dispatches when entity was removed from engine
    */
   public onEntityRemoved: Signal<(entity: Entity) => void> = new Signal();
+  /**
+   * Value indicating whether the engine is paused.
+   * Only systems with {@link System.runsWhenPaused} flag are updated while the engine is paused, entities and queries
+   * are still updated as usual. Fixed time isn't accumulated while the engine is paused, so fixed systems aren't
+   * updated and don't catch up after resuming.
+   */
+  public paused: boolean = false;
+  /**
+   * Time service of the engine
+   */
+  public readonly time: Time = new Time();
 
   private _entityMap: Map<number, Entity> = new Map();
-  private _entities: Entity[] = [];
   private _systems: System[] = [];
   private _queries: Query[] = [];
+  private _queriesByComponent: Map<number, Query[]> = new Map();
+  private _queriesByTag: Map<Tag, Query[]> = new Map();
+  private _opaqueQueries: Query[] = [];
+  private _hierarchyQueries: Query[] = [];
+  private _relationQueries: Query[] = [];
+  private _sortedQueries: Query[] = [];
+  private _queryIndices: AbstractQueryIndex<unknown>[] = [];
+  private _indexQueries: Set<Query> = new Set();
   private _subscriptions: Subscription<any>[] = [];
   private _sharedConfig: Entity = new Entity();
   private _removalRequested: Set<number> = new Set();
+  private readonly _archetypes?: Map<string, Archetype>;
+  private _entityArchetypes: Map<number, Archetype> = new Map();
+  private _archetypeQueries: Query[] = [];
+  private _archetypeQueriesVersion: number = 0;
+  private _clones: Map<Class<unknown>, ComponentClone> = new Map();
+  private readonly _commands: CommandBuffer = new CommandBuffer();
+  private readonly _syncPoint: CommandSyncPoint;
+  private readonly _phases: ReadonlyArray<string>;
+  private readonly _fixedTimeStep: number;
+  private readonly _maxFixedSteps: number;
+  private _fixedTime: number = 0;
 
   /**
    * Gets a list of entities added to engine
    */
   public get entities(): ReadonlyArray<Entity> {
-    return Array.from(this._entities);
+    return Array.from(this._entityMap.values());
   }
 
   /**
@@ -47,10 +183,90 @@ export class Engine {
     return this._queries;
   }
 
-  public constructor() {
+  /**
+   * Gets a list of query indices added to engine
+   */
+  public get queryIndices(): ReadonlyArray<AbstractQueryIndex<unknown>> {
+    return this._queryIndices;
+  }
+
+  /**
+   * Initializes Engine instance
+   * @param options Engine configuration
+   */
+  public constructor(options: EngineOptions = {}) {
+    if (options.storage === 'archetype') {
+      this._archetypes = new Map();
+    }
+    this._syncPoint = options.syncPoint ?? 'update';
+    this._phases = options.phases ?? DEFAULT_PHASES;
+    this._fixedTimeStep = options.fixedTimeStep ?? 1 / 60;
+    this._maxFixedSteps = options.maxFixedSteps ?? 5;
+    if (this._fixedTimeStep <= 0) {
+      throw new Error('Fixed time step should be greater than zero');
+    }
+    if (this._maxFixedSteps < 1) {
+      throw new Error('Maximum number of fixed steps should be at least 1');
+    }
     this.connectEntity(this._sharedConfig);
   }
 
+  /**
+   * Gets a storage mode of the entities
+   */
+  public get storage(): EngineStorage {
+    return this._archetypes !== undefined ? 'archetype' : 'entity';
+  }
+
+  /**
+   * Gets names of the phases in the order they are updated
+   */
+  public get phases(): ReadonlyArray<string> {
+    return this._phases;
+  }
+
+  /**
+   * Gets a time step in seconds, that systems of the fixed loop are updated with
+   */
+  public get fixedTimeStep(): number {
+    return this._fixedTimeStep;
+  }
+
+  /**
+   * Gets a maximum number of fixed steps per update
+   */
+  public get maxFixedSteps(): number {
+    return this._maxFixedSteps;
+  }
+
+  /**
+   * Gets an interpolation alpha in range [0, 1), that is the part of the fixed time step accumulated, but not simulated
+   * yet. Systems of the variable loop can use it for interpolation between the previous and the current fixed states.
+   *
+   * @example
+   * ```ts
+   * const {x, y} = lerp(previousPosition, position, this.engine.interpolationAlpha);
+   * ```
+   */
+  public get interpolationAlpha(): number {
+    return this._fixedTime / this._fixedTimeStep;
+  }
+
+  /**
+   * Gets a sync point, where the command buffer is played back during the update
+   */
+  public get syncPoint(): CommandSyncPoint {
+    return this._syncPoint;
+  }
+
+  /**
+   * Gets a command buffer, that records structural changes to be played back at the sync point
+   * @see {@link flushCommands}
+   */
+  public get commands(): CommandBuffer {
+    return this._commands;
+  }
+
   /**
    * @internal
    */
@@ -79,8 +295,10 @@ export class Engine {
       this._removalRequested.delete(entity.id);
       return this;
     }
-    this._entities.push(entity);
     this._entityMap.set(entity.id, entity);
+    if (this._archetypes !== undefined) {
+      this.addEntityToArchetype(entity);
+    }
     this.onEntityAdded.emit(entity);
     this.connectEntity(entity);
     return this;
@@ -89,6 +307,8 @@ export class Engine {
   /**
    * Remove entity from engine
    * If engine not contains entity - it does nothing.
+   * Children of the entity are removed from engine as well, before the entity itself.
+   * Relations of the removed entity and relations of other entities to it are removed.
    *
    * @param entity Entity to remove from engine
    * @param safe If true - entity will be removed after update loop, if false - entity is removed immediately.
@@ -98,6 +318,11 @@ export class Engine {
    */
   public removeEntity(entity: Entity, safe: boolean = false): Engine {
     if (!this._entityMap.has(entity.id)) return this;
+    for (const child of entity.children.slice()) {
+      if (child.parent === entity) {
+        this.removeEntity(child, safe);
+      }
+    }
     if (!safe) {
       return this.removeEntityNow(entity);
     }
@@ -116,6 +341,110 @@ export class Engine {
     return this._entityMap.get(id);
   }
 
+  /**
+   * Serializes entities of the engine and the shared config to compact binary format.
+   * Every component class must be registered with the field schema, only declared fields are written.
+   * Parents, relations and entity fields are written only if they refer to the entities of the engine.
+   *
+   * @throws Throws error if any component or relation class is not registered in the registry, if the component
+   *  class has no schema, or if any entity has more than 65535 components, tags or relations
+   * @param {ComponentRegistry} registry Registry of component and relation classes
+   * @return {Uint8Array} Serialized bytes
+   * @see {@link deserializeBinary}, {@link ComponentRegistrationOptions.schema}
+   * @example
+   * ```ts
+   * const registry = new ComponentRegistry()
+   *   .register('position', Position, {schema: {x: 'float32', y: 'float32'}})
+   *   .register('target', Target, {schema: {entity: 'entity', priority: 'uint8'}});
+   * const bytes = engine.serializeBinary(registry);
+   * ```
+   */
+  public serializeBinary(registry: ComponentRegistry): Uint8Array {
+    return encodeEntities(this.entities, this._sharedConfig, registry);
+  }
+
+  /**
+   * Creates entities from the bytes written by {@link serializeBinary} and adds them to the engine.
+   * Components and tags of the serialized shared config are added to the shared config of the engine.
+   * Deserialized entities get new identifiers. Binary documents are not migrated, so the version of the registry must
+   * be the same as during serialization.
+   *
+   * @throws Throws error if the version of the document differs from the registry version, or if any type identifier is
+   *  not registered in the registry
+   * @param {Uint8Array} bytes Serialized bytes
+   * @param {ComponentRegistry} registry Registry of component and relation classes
+   * @return {Entity[]} Deserialized entities
+   * @see {@link serializeBinary}
+   */
+  public deserializeBinary(bytes: Uint8Array, registry: ComponentRegistry): Entity[] {
+    const entities = decodeEntities(bytes, this._sharedConfig, registry);
+    for (const entity of entities) {
+      this.addEntity(entity);
+    }
+    return entities;
+  }
+
+  /**
+   * Returns entities in the engine, that have a relation of specified class to the target entity
+   *
+   * @param {Class<T>} relation Relation class
+   * @param {Entity} target Target entity
+   * @return {Entity[]} New array of source entities
+   * @see {@link Entity.addRelation}
+   */
+  public getRelationSources<T>(relation: Class<T>, target: Entity): Entity[] {
+    return target.getRelationSources(relation).filter(value => this.getEntityById(value.id) === value);
+  }
+
+  /**
+   * Serializes entities of the engine and the shared config to JSON-compatible document.
+   * Parents and relations are serialized only if they refer to the entities of the engine.
+   *
+   * @throws Throws error if any component or relation class is not registered in the registry
+   * @param {ComponentRegistry} registry Registry of component and relation classes
+   * @return {SerializedEngine} Serialized document
+   * @see {@link deserialize}
+   */
+  public serialize(registry: ComponentRegistry): SerializedEngine {
+    const entities = this.entities;
+    const ids = new Set(entities.map(entity => entity.id));
+    return {
+      version: registry.version,
+      entities: entities.map(entity => serializeEntity(entity, registry, ids)),
+      sharedConfig: serializeEntity(this._sharedConfig, registry, ids),
+    };
+  }
+
+  /**
+   * Creates entities from the serialized document and adds them to the engine.
+   * Components and tags of the serialized shared config are added to the shared config of the engine.
+   * Deserialized entities get new identifiers.
+   * Documents and components saved with older versions are migrated before deserialization.
+   *
+   * @throws Throws error if any component or relation name is not registered in the registry, or if the migration
+   *  of the document or of the component is not added
+   * @param {SerializedEngine} document Serialized document
+   * @param {ComponentRegistry} registry Registry of component and relation classes
+   * @return {Entity[]} Deserialized entities
+   * @see {@link serialize}, {@link ComponentRegistry.addMigration}, {@link ComponentRegistry.addComponentMigration}
+   */
+  public deserialize(document: SerializedEngine, registry: ComponentRegistry): Entity[] {
+    document = migrateDocument(document, registry);
+    const entities: Map<number, Entity> = new Map();
+    for (const data of document.entities) {
+      const entity = new Entity();
+      deserializeEntity(entity, data, registry);
+      entities.set(data.id, entity);
+    }
+    deserializeReferences(entities, document.entities, registry);
+    deserializeEntity(this._sharedConfig, document.sharedConfig, registry);
+    const result = Array.from(entities.values());
+    for (const entity of result) {
+      this.addEntity(entity);
+    }
+    return result;
+  }
+
   /**
    * Removes a system from engine
    * Avoid remove the system during update cycle, do it only if your sure what you are doing.
@@ -129,21 +458,43 @@ export class Engine {
     this._systems.splice(index, 1);
     system.onRemovedFromEngine();
     system.setEngine(undefined);
+    system.setPhase(undefined);
     return this;
   }
 
   /**
-   * Updates the engine. This cause updating all the systems in the engine in the order of priority they've been added.
+   * Updates the engine. This cause updating all the systems in the engine in the order of phases, and in the order of
+   * priority they've been added within the phase.
+   *
+   * Passed time is accumulated, and systems of the fixed loop are updated with {@link fixedTimeStep} as many times as
+   * the accumulated time allows, but not more than {@link maxFixedSteps}. Fixed systems of the phase are updated
+   * together, at the place of the first fixed system of the phase, so phases keep their order. While the engine is
+   * {@link paused}, passed time isn't accumulated for the fixed loop.
+   *
+   * Delta time is scaled by {@link Time.scale} of the engine {@link time}, and by {@link System.timeScale} of every
+   * system.
    *
    * @param dt Delta time in seconds
+   * @see {@link System.updateLoop}, {@link interpolationAlpha}
    */
   public update(dt: number): void {
-    for (const system of this._systems) {
-      system.update(dt);
+    dt = this.time.advance(dt);
+    const fixedSteps = this.paused ? 0 : this.advanceFixedTime(dt);
+    const fixedPhases: Set<string | undefined> = new Set();
+    for (const system of this._systems.slice()) {
+      if (system.updateLoop === 'fixed') {
+        if (!fixedPhases.has(system.phase)) {
+          fixedPhases.add(system.phase);
+          this.updateFixedSystems(fixedSteps, system.phase);
+        }
+        continue;
+      }
+      this.updateSystem(system, dt);
       if (system.isRemovalRequested) {
         this.removeSystem(system);
       }
     }
+    this.flushCommands();
     if (this._removalRequested.size > 0) {
       for (const id of this._removalRequested) {
         const entity = this._entityMap.get(id);
@@ -156,12 +507,144 @@ export class Engine {
   }
 
   /**
-   * Gets a system of the specific class
+   * Updates the system with delta time multiplied by its {@link System.timeScale}, plays back commands if the sync
+   * point is `system`, and updates {@link System.lastRunTick}.
+   * Disabled systems and systems that don't run when the engine is paused are skipped.
+   * @internal
+   */
+  public updateSystem(system: System, dt: number): void {
+    if (!system.enabled || (this.paused && !system.runsWhenPaused)) return;
+    system.update(dt * system.timeScale);
+    if (this._syncPoint === 'system') {
+      this.flushCommands();
+    }
+    system.completeUpdate(getChangeTick());
+  }
+
+  /**
+   * Plays back commands recorded in the command buffer.
+   * It's called at the sync point during the update, but can be called manually as well.
+   * @see {@link commands}
+   */
+  public flushCommands(): void {
+    this._commands.playback(this);
+  }
+
+  /**
+   * Registers a function that creates a copy of the component of specified class for {@link saveState}.
+   * Components without registered functions are copied shallowly: the copy has the same prototype and own properties.
+   *
+   * @param {Class<T>} componentClass Component class
+   * @param {(component: T) => T} clone Function that creates a copy of the component
+   * @return {Engine} Reference to the engine itself. It helps to build chain of calls.
+   * @example
+   * ```ts
+   * engine.registerClone(Path, (path) => new Path(path.points.map((point) => ({x: point.x, y: point.y}))));
+   * ```
+   */
+  public registerClone<T>(componentClass: Class<T>, clone: (component: T) => T): Engine {
+    this._clones.set(componentClass, clone as ComponentClone);
+    return this;
+  }
+
+  /**
+   * Saves the state of the engine, that can be restored later with {@link restoreState}.
+   *
+   * The state contains entities of the engine and the shared config with copies of their components, tags, change
+   * tracking data, hierarchy and relations, entities requested for safe removal, order of entities in the queries,
+   * the change tick, and the state of the systems that opt in with {@link System.saveState}.
+   *
+   * @return {EngineState} Saved state
+   * @see {@link registerClone}, {@link RollbackBuffer}
+   */
+  public saveState(): EngineState {
+    const clone = this.cloneComponent;
+    const systems: Map<System, {lastRunTick: number, state: unknown}> = new Map();
+    forEachSystem(this._systems, (system) => {
+      systems.set(system, {lastRunTick: system.lastRunTick, state: system.saveState()});
+    });
+    return {
+      entities: Array.from(this._entityMap.values(), (entity): [Entity, EntityState] => [entity, entity.saveState(clone)]),
+      sharedConfig: this._sharedConfig.saveState(clone),
+      removalRequested: Array.from(this._removalRequested),
+      queries: new Map(this._queries.map((query): [Query, Entity[]] => [query, query.entities.concat()])),
+      systems,
+      changeTick: getChangeTick(),
+      fixedTime: this._fixedTime,
+      time: new Time().copyFrom(this.time),
+    };
+  }
+
+  /**
+   * Restores the state saved with {@link saveState}.
+   * The same entity instances are restored, so references to them stay valid. Restoring doesn't dispatch any signals
+   * of the engine, entities and queries.
+   * Systems, queries and query indices stay the same, queries added after saving the state are matched again, and
+   * query indices are rebuilt.
+   * Commands recorded in the command buffer are discarded.
+   * Change tick is not rewound, because it's shared by all engines.
+   *
+   * @param {EngineState} state Saved state
+   * @see {@link RollbackBuffer}
+   */
+  public restoreState(state: EngineState): void {
+    const clone = this.cloneComponent;
+    const entityMap: Map<number, Entity> = new Map();
+    for (const [entity] of state.entities) {
+      entityMap.set(entity.id, entity);
+    }
+    for (const entity of this._entityMap.values()) {
+      if (!entityMap.has(entity.id)) {
+        this.disconnectEntity(entity);
+      }
+    }
+    for (const [entity, entityState] of state.entities) {
+      if (!this._entityMap.has(entity.id)) {
+        this.connectEntity(entity);
+      }
+      entity.restoreState(entityState, clone);
+    }
+    this._entityMap = entityMap;
+    this._sharedConfig.restoreState(state.sharedConfig, clone);
+    this._removalRequested = new Set(state.removalRequested);
+    this._commands.clear();
+    if (this._archetypes !== undefined) {
+      this.restoreArchetypes();
+    }
+    for (const query of this._queries) {
+      const entities = state.queries.get(query);
+      if (entities !== undefined) {
+        query.restoreEntities(entities);
+      } else {
+        query.clear();
+        if (this.isMatchedByArchetypes(query)) {
+          this.matchArchetypes(query);
+        } else {
+          query.matchEntities(this.entities);
+        }
+      }
+    }
+    this._queryIndices.forEach(value => value.rebuild());
+    forEachSystem(this._systems, (system) => {
+      const systemState = state.systems.get(system);
+      if (systemState === undefined) return;
+      system.setLastRunTick(systemState.lastRunTick);
+      if (systemState.state !== undefined) {
+        system.restoreState(systemState.state);
+      }
+    });
+    advanceChangeTick(state.changeTick);
+    this._fixedTime = state.fixedTime;
+    this.time.copyFrom(state.time);
+  }
+
+  /**
+   * Gets a system of the specific class. Systems of the {@link SystemGroup}s are looked up as well.
    *
    * @param systemClass Class of the system that should be found
    */
   public getSystem<T extends System>(systemClass: Class<T>): T | undefined {
-    return this._systems.find(value => value instanceof systemClass) as T;
+    return findSystem(this._systems, systemClass);
   }
 
   /**
@@ -177,9 +660,13 @@ export class Engine {
 
   /**
    * Remove all queries.
-   * After remove all queries will be cleared.
+   * After remove all queries will be cleared, query indices will be removed as well.
    */
   public removeAllQueries(): void {
+    const indices = this._queryIndices;
+    this._queryIndices = [];
+    this._indexQueries.clear();
+    indices.forEach(value => value.disconnect());
     const queries = this._queries;
     this._queries = [];
     for (const query of queries) {
@@ -197,22 +684,50 @@ export class Engine {
   }
 
   /**
-   * Removes all entities, queries and systems.
+   * Removes all entities, queries, query indices and systems.
    * All entities will be removed silently, {@link onEntityRemoved} event will not be fired.
-   * Queries will be cleared.
+   * Queries will be cleared, recorded commands will be discarded.
    */
   public clear(): void {
+    this._commands.clear();
     this.removeAllEntitiesInternal(true);
     this.removeAllSystems();
     this.removeAllQueries();
   }
 
+  private advanceFixedTime(dt: number): number {
+    let steps = 0;
+    this._fixedTime += dt;
+    while (this._fixedTime >= this._fixedTimeStep && steps < this._maxFixedSteps) {
+      this._fixedTime -= this._fixedTimeStep;
+      steps++;
+    }
+    if (this._fixedTime >= this._fixedTimeStep) {
+      this._fixedTime %= this._fixedTimeStep;
+    }
+    return steps;
+  }
+
+  private updateFixedSystems(steps: number, phase: string | undefined): void {
+    for (let step = 0; step < steps; step++) {
+      for (const system of this._systems.filter(value => value.updateLoop === 'fixed' && value.phase === phase)) {
+        this.updateSystem(system, this._fixedTimeStep);
+        if (system.isRemovalRequested) {
+          this.removeSystem(system);
+        }
+      }
+    }
+  }
+
   private removeEntityNow(entity: Entity): Engine {
-    const index = this._entities.indexOf(entity);
-    this._entities.splice(index, 1);
     this._entityMap.delete(entity.id);
     this.onEntityRemoved.emit(entity);
+    if (this._archetypes !== undefined) {
+      this.removeEntityFromArchetype(entity);
+    }
+    entity.removeRelations();
     this.disconnectEntity(entity);
+    entity.removeRelationsToSelf();
 
     return this;
   }
@@ -227,30 +742,47 @@ export class Engine {
    */
   public addQuery(query: Query): Engine {
     this.connectQuery(query);
-    query.matchEntities(this.entities);
+    if (this.isMatchedByArchetypes(query)) {
+      this.matchArchetypes(query);
+    } else {
+      query.matchEntities(this.entities);
+    }
     this._queries[this._queries.length] = query;
     return this;
   }
 
   /**
-   * Adds a system to engine, and set its priority inside of engine update loop.
+   * Adds a system to engine, and set its phase and priority inside of engine update loop.
+   * Systems are sorted according to their {@link System.runsBefore} and {@link System.runsAfter} constraints, the
+   * priority orders systems that aren't constrained relative to each other.
    *
+   * @throws Throws error if the phase is not defined in the engine, if ordering constraints of systems have a cycle, or
+   *  if they refer to a system of another phase. The system is not added then.
    * @param system System to add to the engine
-   * @param priority Value indicating the priority of updating system in update loop. Lower priority
+   * @param priority Value indicating the priority of updating system in update loop of the phase. Lower priority
    *  means sooner update.
+   * @param phase Name of the phase, that system is updated in
+   * @see {@link EngineOptions.phases}
    */
-  public addSystem(system: System, priority: number = 0): Engine {
-    system.setPriority(priority);
-    if (this._systems.length === 0) {
-      this._systems[0] = system;
+  public addSystem(system: System, priority: number = 0, phase: string = DEFAULT_PHASE): Engine {
+    const phaseIndex = this._phases.indexOf(phase);
+    if (phaseIndex === -1) {
+      throw new Error(`Phase "${phase}" is not defined in the engine`);
+    }
+    const systems = this._systems.concat();
+    const index = systems.findIndex(value => {
+      const valuePhaseIndex = this._phases.indexOf(value.phase!);
+      return valuePhaseIndex > phaseIndex || (valuePhaseIndex === phaseIndex && value.priority > priority);
+    });
+    if (index === -1) {
+      systems.push(system);
     } else {
-      const index = this._systems.findIndex(value => value.priority > priority);
-      if (index === -1) {
-        this._systems[this._systems.length] = system;
-      } else {
-        this._systems.splice(index, 0, system);
-      }
+      systems.splice(index, 0, system);
     }
+    const sorted = sortSystems(systems, value => value === system ? phase : value.phase);
+    system.setPriority(priority);
+    system.setPhase(phase);
+    this._systems.splice(0, this._systems.length, ...sorted);
     system.setEngine(this);
     system.onAddedToEngine();
 
@@ -258,13 +790,53 @@ export class Engine {
   }
 
   /**
-   * Removes a query and clear it.
+   * Adds a query index to engine, and indexes entities of its query.
+   * The query of the index is added to the engine, if it's not added yet. Such query is removed from the engine along
+   * with the last index of it.
+   *
+   * @param index Query index
+   * @see {@link QueryIndex}, {@link UniqueQueryIndex}
+   */
+  public addQueryIndex(index: AbstractQueryIndex<unknown>): Engine {
+    if (this._queryIndices.indexOf(index) !== -1) return this;
+    if (this._queries.indexOf(index.query) === -1) {
+      this.addQuery(index.query);
+      this._indexQueries.add(index.query);
+    }
+    index.connect();
+    this._queryIndices.push(index);
+    return this;
+  }
+
+  /**
+   * Removes a query index from engine and clears it
+   *
+   * @param index Query index
+   */
+  public removeQueryIndex(index: AbstractQueryIndex<unknown>): Engine {
+    const position = this._queryIndices.indexOf(index);
+    if (position === -1) return this;
+    this._queryIndices.splice(position, 1);
+    index.disconnect();
+    const query = index.query;
+    if (this._indexQueries.has(query) && !this._queryIndices.some(value => value.query === query)) {
+      this.removeQuery(query);
+    }
+    return this;
+  }
+
+  /**
+   * Removes a query and clear it. Query indices of the query are removed as well.
    *
    * @param query Entity match query
    */
   public removeQuery(query: Query) {
     const index = this._queries.indexOf(query);
     if (index == -1) return undefined;
+    this._indexQueries.delete(query);
+    for (const queryIndex of this._queryIndices.filter(value => value.query === query)) {
+      this.removeQueryIndex(queryIndex);
+    }
     this._queries.splice(index, 1);
     this.disconnectQuery(query);
     query.clear();
@@ -340,46 +912,353 @@ export class Engine {
   private connectEntity(entity: Entity) {
     entity.onComponentAdded.connect(this.onComponentAdded, Number.POSITIVE_INFINITY);
     entity.onComponentRemoved.connect(this.onComponentRemoved, Number.POSITIVE_INFINITY);
+    entity.onComponentChanged.connect(this.onComponentChanged, Number.POSITIVE_INFINITY);
     entity.onInvalidationRequested.connect(this.onInvalidationRequested, Number.NEGATIVE_INFINITY);
+    entity.onParentChanged.connect(this.onParentChanged, Number.POSITIVE_INFINITY);
+    entity.onRelationAdded.connect(this.onRelationChanged, Number.POSITIVE_INFINITY);
+    entity.onRelationRemoved.connect(this.onRelationChanged, Number.POSITIVE_INFINITY);
   }
 
   private disconnectEntity(entity: Entity) {
     entity.onComponentAdded.disconnect(this.onComponentAdded);
     entity.onComponentRemoved.disconnect(this.onComponentRemoved);
+    entity.onComponentChanged.disconnect(this.onComponentChanged);
     entity.onInvalidationRequested.disconnect(this.onInvalidationRequested);
+    entity.onParentChanged.disconnect(this.onParentChanged);
+    entity.onRelationAdded.disconnect(this.onRelationChanged);
+    entity.onRelationRemoved.disconnect(this.onRelationChanged);
   }
 
   private connectQuery(query: Query) {
+    if (query.isSorted) {
+      this._sortedQueries.push(query);
+    }
+    if (this.isMatchedByArchetypes(query)) {
+      this._archetypeQueries.push(query);
+      this._archetypeQueriesVersion++;
+      return;
+    }
     this.onEntityAdded.connect(query.entityAdded);
     this.onEntityRemoved.connect(query.entityRemoved);
+    const dependencies = query.dependencies;
+    if (dependencies === undefined) {
+      this._opaqueQueries.push(query);
+      return;
+    }
+    if (dependencies.hierarchy) {
+      this._hierarchyQueries.push(query);
+    }
+    if (dependencies.relations) {
+      this._relationQueries.push(query);
+    }
+    for (const componentId of dependencies.components) {
+      addDependentQuery(this._queriesByComponent, componentId, query);
+    }
+    for (const tag of dependencies.tags) {
+      addDependentQuery(this._queriesByTag, tag, query);
+    }
   }
 
   private disconnectQuery(query: Query) {
+    if (query.isSorted) {
+      removeQuery(this._sortedQueries, query);
+    }
+    if (this.isMatchedByArchetypes(query)) {
+      removeQuery(this._archetypeQueries, query);
+      for (const archetype of this._archetypes!.values()) {
+        removeQuery(archetype.queries, query);
+      }
+      this._archetypeQueriesVersion++;
+      return;
+    }
     this.onEntityAdded.disconnect(query.entityAdded);
     this.onEntityRemoved.disconnect(query.entityRemoved);
+    const dependencies = query.dependencies;
+    if (dependencies === undefined) {
+      removeQuery(this._opaqueQueries, query);
+      return;
+    }
+    if (dependencies.hierarchy) {
+      removeQuery(this._hierarchyQueries, query);
+    }
+    if (dependencies.relations) {
+      removeQuery(this._relationQueries, query);
+    }
+    for (const componentId of dependencies.components) {
+      removeDependentQuery(this._queriesByComponent, componentId, query);
+    }
+    for (const tag of dependencies.tags) {
+      removeDependentQuery(this._queriesByTag, tag, query);
+    }
+  }
+
+  private getDependentQueries<T>(componentOrTag: NonNullable<T>, componentClass?: Class<NonNullable<T>>): Query[] | undefined {
+    if (isTag(componentOrTag)) {
+      return this._queriesByTag.get(componentOrTag);
+    }
+    const componentId = getComponentId(getComponentClass(componentOrTag, componentClass));
+    return componentId === undefined ? undefined : this._queriesByComponent.get(componentId);
   }
 
   private removeAllEntitiesInternal(silently: boolean): void {
-    const entities = this._entities;
-    this._entities = [];
+    const entities = Array.from(this._entityMap.values());
     this._entityMap.clear();
     for (const entity of entities) {
       if (!silently) {
         this.onEntityRemoved.emit(entity);
+        if (this._archetypes !== undefined) {
+          this.removeEntityFromArchetype(entity);
+        }
       }
       this.disconnectEntity(entity);
     }
+    for (const entity of entities) {
+      entity.removeRelations();
+      entity.removeRelationsToSelf();
+    }
+    if (this._archetypes !== undefined) {
+      for (const archetype of this._archetypes.values()) {
+        archetype.entities.clear();
+      }
+      this._entityArchetypes.clear();
+    }
+  }
+
+  private isMatchedByArchetypes(query: Query): boolean {
+    return this._archetypes !== undefined && query.matcher !== undefined;
+  }
+
+  private matchArchetypes(query: Query): void {
+    for (const archetype of this._archetypes!.values()) {
+      if (query.matcher!(archetype)) {
+        archetype.queries.push(query);
+        for (const entity of archetype.entities.values()) {
+          query.addMatchedEntity(entity);
+        }
+      }
+    }
+  }
+
+  private getArchetype(components: Readonly<Record<number, unknown>>, tags: ReadonlySet<Tag>): Archetype {
+    const key = getArchetypeKey(components, tags);
+    let archetype = this._archetypes!.get(key);
+    if (archetype === undefined) {
+      const archetypeComponents: Record<number, true> = {};
+      for (const componentId of Object.keys(components)) {
+        archetypeComponents[Number(componentId)] = true;
+      }
+      archetype = new Archetype(key, archetypeComponents, new Set(tags));
+      for (const query of this._archetypeQueries) {
+        if (query.matcher!(archetype)) {
+          archetype.queries.push(query);
+        }
+      }
+      this._archetypes!.set(key, archetype);
+    }
+    return archetype;
+  }
+
+  private getArchetypeEdge(archetype: Archetype, key: string, componentIdOrTag: number | Tag, isTag: boolean): ArchetypeEdge {
+    let edge = archetype.getEdge(key);
+    if (edge === undefined) {
+      const components: Record<number, true> = Object.assign({}, archetype.components);
+      const tags = new Set(archetype.tags);
+      if (isTag) {
+        if (!tags.delete(componentIdOrTag)) tags.add(componentIdOrTag);
+      } else if (components[componentIdOrTag as number]) {
+        delete components[componentIdOrTag as number];
+      } else {
+        components[componentIdOrTag as number] = true;
+      }
+      edge = {target: this.getArchetype(components, tags), version: -1, addedTo: [], removedFrom: [], renotified: []};
+      archetype.setEdge(key, edge);
+    }
+    if (edge.version !== this._archetypeQueriesVersion) {
+      const target = edge.target;
+      edge.addedTo = target.queries.filter(query => archetype.queries.indexOf(query) === -1);
+      edge.removedFrom = archetype.queries.filter(query => target.queries.indexOf(query) === -1);
+      edge.renotified = isTag ? [] : archetype.queries.filter(query => {
+        return query.optionalComponents.has(componentIdOrTag as number) && target.queries.indexOf(query) !== -1;
+      });
+      edge.version = this._archetypeQueriesVersion;
+    }
+    return edge;
+  }
+
+  private restoreArchetypes(): void {
+    for (const archetype of this._archetypes!.values()) {
+      archetype.entities.clear();
+    }
+    this._entityArchetypes.clear();
+    for (const entity of this._entityMap.values()) {
+      const archetype = this.getArchetype(entity.components, entity.tags);
+      archetype.entities.set(entity.id, entity);
+      this._entityArchetypes.set(entity.id, archetype);
+    }
+  }
+
+  private addEntityToArchetype(entity: Entity): void {
+    const archetype = this.getArchetype(entity.components, entity.tags);
+    archetype.entities.set(entity.id, entity);
+    this._entityArchetypes.set(entity.id, archetype);
+    const queries = archetype.queries;
+    for (let i = 0, length = queries.length; i < length; i++) {
+      queries[i].addMatchedEntity(entity);
+    }
+  }
+
+  private removeEntityFromArchetype(entity: Entity): void {
+    const archetype = this._entityArchetypes.get(entity.id);
+    if (archetype === undefined) return;
+    archetype.entities.delete(entity.id);
+    this._entityArchetypes.delete(entity.id);
+    const queries = archetype.queries;
+    for (let i = 0, length = queries.length; i < length; i++) {
+      queries[i].removeMatchedEntity(entity);
+    }
+  }
+
+  private updateEntityArchetype<T>(entity: Entity, componentOrTag: NonNullable<T>, componentClass?: Class<NonNullable<T>>): void {
+    const archetype = this._entityArchetypes.get(entity.id);
+    if (archetype === undefined) return;
+
+    let edge: ArchetypeEdge;
+    if (isTag(componentOrTag)) {
+      if (entity.tags.has(componentOrTag) === archetype.tags.has(componentOrTag)) return;
+      edge = this.getArchetypeEdge(archetype, getTagEdgeKey(componentOrTag), componentOrTag, true);
+    } else {
+      const componentId = getComponentId(getComponentClass(componentOrTag, componentClass))!;
+      if ((entity.components[componentId] !== undefined) === (archetype.components[componentId] === true)) return;
+      edge = this.getArchetypeEdge(archetype, getComponentEdgeKey(componentId), componentId, false);
+    }
+
+    archetype.entities.delete(entity.id);
+    edge.target.entities.set(entity.id, entity);
+    this._entityArchetypes.set(entity.id, edge.target);
+    for (const query of edge.removedFrom) {
+      query.removeMatchedEntity(entity, componentOrTag, componentClass);
+    }
+    for (const query of edge.addedTo) {
+      query.addMatchedEntity(entity, componentOrTag, componentClass);
+    }
+    for (const query of edge.renotified) {
+      query.renotifyEntity(entity, componentOrTag, componentClass);
+    }
   }
 
   private onComponentAdded = <T>(entity: Entity, component: NonNullable<T>, componentClass?: Class<NonNullable<T>>) => {
-    this._queries.forEach(value => value.entityComponentAdded(entity, component, componentClass));
+    if (this._archetypes !== undefined) {
+      this.updateEntityArchetype(entity, component, componentClass);
+    }
+    const queries = this.getDependentQueries(component, componentClass);
+    if (queries !== undefined) {
+      queries.forEach(value => value.entityComponentAdded(entity, component, componentClass));
+    }
+    this._opaqueQueries.forEach(value => value.entityComponentAdded(entity, component, componentClass));
+    this.validateChildren(entity);
+    this.updateQueryIndices(entity, component, componentClass);
+  };
+
+  private onComponentChanged = <T>(entity: Entity, component: NonNullable<T>, componentClass?: Class<NonNullable<T>>) => {
+    this._opaqueQueries.forEach(value => value.validateEntity(entity));
+    this.updateQueryIndices(entity, component, componentClass);
+    if (this._sortedQueries.length > 0) {
+      const componentId = getComponentId(getComponentClass(component, componentClass))!;
+      this._sortedQueries.forEach(value => {
+        if (value.sortComponents.has(componentId)) {
+          value.sortEntity(entity);
+        }
+      });
+    }
   };
 
   private onInvalidationRequested = (entity: Entity) => {
-    this._queries.forEach(value => value.validateEntity(entity));
+    this._queries.forEach(value => {
+      if (!this.isMatchedByArchetypes(value)) {
+        value.validateEntity(entity);
+      }
+    });
+    this._sortedQueries.forEach(value => value.sortEntity(entity));
+    this._queryIndices.forEach(value => value.updateEntity(entity));
   };
 
   private onComponentRemoved = <T>(entity: Entity, component: NonNullable<T>, componentClass?: Class<NonNullable<T>>) => {
-    this._queries.forEach(value => value.entityComponentRemoved(entity, component, componentClass));
+    if (this._archetypes !== undefined) {
+      this.updateEntityArchetype(entity, component, componentClass);
+    }
+    const queries = this.getDependentQueries(component, componentClass);
+    if (queries !== undefined) {
+      queries.forEach(value => value.entityComponentRemoved(entity, component, componentClass));
+    }
+    this._opaqueQueries.forEach(value => value.entityComponentRemoved(entity, component, componentClass));
+    this.validateChildren(entity);
+    this.updateQueryIndices(entity, component, componentClass);
+  };
+
+  private updateQueryIndices<T>(entity: Entity, componentOrTag: NonNullable<T>, componentClass?: Class<NonNullable<T>>) {
+    if (this._queryIndices.length === 0 || isTag(componentOrTag)) return;
+    const componentId = getComponentId(getComponentClass(componentOrTag, componentClass))!;
+    this._queryIndices.forEach(value => {
+      if (value.keyComponents.has(componentId)) {
+        value.updateEntity(entity);
+      }
+    });
+  }
+
+  private cloneComponent = (component: unknown): unknown => {
+    const clone = this._clones.get((component as object).constructor as Class<unknown>);
+    if (clone !== undefined) {
+      return clone(component);
+    }
+    return Object.assign(Object.create(Object.getPrototypeOf(component)), component);
+  };
+
+  private onParentChanged = (entity: Entity) => {
+    if (!this._entityMap.has(entity.id)) return;
+    this._hierarchyQueries.forEach(value => value.validateEntity(entity));
+  };
+
+  private onRelationChanged = (source: Entity, relation: Class<unknown>, target: Entity) => {
+    if (this._relationQueries.length === 0) return;
+    if (this._entityMap.has(source.id)) {
+      this._relationQueries.forEach(value => value.validateEntity(source));
+    }
+    if (this._entityMap.has(target.id)) {
+      this._relationQueries.forEach(value => value.validateEntity(target));
+    }
   };
+
+  private validateChildren(entity: Entity): void {
+    if (this._hierarchyQueries.length === 0) return;
+    for (const child of entity.children) {
+      if (this._entityMap.has(child.id)) {
+        this._hierarchyQueries.forEach(value => value.validateEntity(child));
+      }
+    }
+  }
+}
+
+function addDependentQuery<K>(map: Map<K, Query[]>, key: K, query: Query): void {
+  const queries = map.get(key);
+  if (queries === undefined) {
+    map.set(key, [query]);
+  } else {
+    queries.push(query);
+  }
+}
+
+function removeQuery(queries: Query[], query: Query): void {
+  const index = queries.indexOf(query);
+  if (index !== -1) {
+    queries.splice(index, 1);
+  }
+}
+
+function removeDependentQuery<K>(map: Map<K, Query[]>, key: K, query: Query): void {
+  const queries = map.get(key);
+  if (queries === undefined) return;
+  removeQuery(queries, query);
+  if (queries.length === 0) {
+    map.delete(key);
+  }
 }
@@ -17,6 +17,11 @@ export interface ReadonlyEntity {
    * The signal dispatches if component was removed from the entity
    */
   readonly onComponentRemoved: Signal<ComponentUpdateHandler>;
+  /**
+   * The signal dispatches if component was marked as changed
+   * @see {@link Entity.markChanged}
+   */
+  readonly onComponentChanged: Signal<ComponentUpdateHandler>;
   /**
    * Returns components map, where key is component identifier, and value is a component itself
    * @see {@link getComponentId}, {@link Entity.getComponents}
@@ -27,6 +32,16 @@ export interface ReadonlyEntity {
    * @see getComponentId
    */
   readonly tags: ReadonlySet<Tag>;
+  /**
+   * Returns parent of the entity, or `undefined` if entity has no parent
+   * @see {@link Entity.setParent}
+   */
+  readonly parent: Entity | undefined;
+  /**
+   * Returns children of the entity
+   * @see {@link Entity.setParent}
+   */
+  readonly children: ReadonlyArray<Entity>;
 
   /**
    * Returns value indicating whether entity has a specific component or tag
@@ -204,6 +219,79 @@ export interface ReadonlyEntity {
    * @return {number}
    */
   lengthOf<T>(componentClass: Class<T>): number;
+
+  /**
+   * Returns version of the component of specified class.
+   * Version is increased every time when component is added to the entity or marked as changed.
+   *
+   * @param {Class<T>} componentClass
+   * @return {number}
+   */
+  getVersion<T>(componentClass: Class<T>): number;
+
+  /**
+   * Returns value indicating whether component of specified class was added to the entity after the change tick.
+   *
+   * @param {Class<T>} componentClass
+   * @param {number} tick Change tick
+   * @see {@link getChangeTick}
+   */
+  isAddedSince<T>(componentClass: Class<T>, tick: number): boolean;
+
+  /**
+   * Returns value indicating whether component of specified class was added to the entity or marked as changed after
+   * the change tick.
+   *
+   * @param {Class<T>} componentClass
+   * @param {number} tick Change tick
+   * @see {@link getChangeTick}
+   */
+  isChangedSince<T>(componentClass: Class<T>, tick: number): boolean;
+
+  /**
+   * Returns value indicating whether component of specified class was removed from the entity after the change tick.
+   *
+   * @param {Class<T>} componentClass
+   * @param {number} tick Change tick
+   * @see {@link getChangeTick}
+   */
+  isRemovedSince<T>(componentClass: Class<T>, tick: number): boolean;
+
+  /**
+   * Returns value indicating whether entity has a relation of specified class to the target entity.
+   * If target is not passed - checks whether entity has a relation of specified class to any entity.
+   *
+   * @param {Class<T>} relation Relation class
+   * @param {Entity} target Target entity
+   * @see {@link Entity.addRelation}
+   */
+  hasRelation<T>(relation: Class<T>, target?: Entity): boolean;
+
+  /**
+   * Returns value indicating whether entity is a target of a relation of specified class from the source entity.
+   * If source is not passed - checks whether entity is a target of a relation of specified class from any entity.
+   *
+   * @param {Class<T>} relation Relation class
+   * @param {Entity} source Source entity
+   * @see {@link Entity.addRelation}
+   */
+  isTargetOf<T>(relation: Class<T>, source?: Entity): boolean;
+
+  /**
+   * Returns entities the entity has a relation of specified class to.
+   *
+   * @param {Class<T>} relation Relation class
+   * @see {@link Entity.addRelation}
+   */
+  getRelationTargets<T>(relation: Class<T>): Entity[];
+
+  /**
+   * Returns entities that have a relation of specified class to the entity.
+   *
+   * @param {Class<T>} relation Relation class
+   * @see {@link Entity.addRelation}
+   */
+  getRelationSources<T>(relation: Class<T>): Entity[];
 }
 
 /**
@@ -243,6 +331,11 @@ export class Entity implements ReadonlyEntity {
    * The signal dispatches if component was removed from the entity. Works for every linked component as well.
    */
   public readonly onComponentRemoved: Signal<ComponentUpdateHandler> = new Signal();
+  /**
+   * The signal dispatches if component was marked as changed.
+   * @see {@link markChanged}
+   */
+  public readonly onComponentChanged: Signal<ComponentUpdateHandler> = new Signal();
   /**
    * The signal dispatches that invalidation requested for this entity.
    * Which means that if the entity attached to the engine — its queries will be updated.
@@ -254,6 +347,31 @@ export class Entity implements ReadonlyEntity {
    * manually, if some of your queries depends on logic or component`s properties.
    */
   public readonly onInvalidationRequested: Signal<(entity: Entity) => void> = new Signal();
+  /**
+   * The signal dispatches if the entity became a parent of the child entity.
+   * @see {@link setParent}
+   */
+  public readonly onChildAdded: Signal<(parent: Entity, child: Entity) => void> = new Signal();
+  /**
+   * The signal dispatches if the entity stopped being a parent of the child entity.
+   * @see {@link setParent}
+   */
+  public readonly onChildRemoved: Signal<(parent: Entity, child: Entity) => void> = new Signal();
+  /**
+   * The signal dispatches if the parent of the entity was changed.
+   * @see {@link setParent}
+   */
+  public readonly onParentChanged: Signal<(entity: Entity, previousParent: Entity | undefined) => void> = new Signal();
+  /**
+   * The signal dispatches if the entity got a new relation to the target entity.
+   * @see {@link addRelation}
+   */
+  public readonly onRelationAdded: Signal<RelationUpdateHandler> = new Signal();
+  /**
+   * The signal dispatches if the relation of the entity to the target entity was removed.
+   * @see {@link removeRelation}
+   */
+  public readonly onRelationRemoved: Signal<RelationUpdateHandler> = new Signal();
 
   /**
    * Unique id identifier
@@ -263,6 +381,14 @@ export class Entity implements ReadonlyEntity {
   private _components: Record<number, unknown> = {};
   private _linkedComponents: Record<number, LinkedComponentList<ILinkedComponent>> = {};
   private _tags: Set<Tag> = new Set();
+  private _versions: Record<number, number> = {};
+  private _addedTicks: Record<number, number> = {};
+  private _changedTicks: Record<number, number> = {};
+  private _removedTicks: Record<number, number> = {};
+  private _parent?: Entity;
+  private _children: Entity[] = [];
+  private _relations: Map<Class<unknown>, Set<Entity>> = new Map();
+  private _relationSources: Map<Class<unknown>, Set<Entity>> = new Map();
 
   /**
    * Returns components map, where key is component identifier, and value is a component itself
@@ -280,6 +406,223 @@ export class Entity implements ReadonlyEntity {
     return this._tags;
   }
 
+  /**
+   * Returns parent of the entity, or `undefined` if entity has no parent
+   * @see {@link setParent}
+   */
+  public get parent(): Entity | undefined {
+    return this._parent;
+  }
+
+  /**
+   * Returns children of the entity
+   * @see {@link setParent}
+   */
+  public get children(): ReadonlyArray<Entity> {
+    return this._children;
+  }
+
+  /**
+   * Returns classes of relations the entity has to other entities
+   * @see {@link addRelation}
+   */
+  public get relations(): Array<Class<unknown>> {
+    return Array.from(this._relations.keys());
+  }
+
+  /**
+   * Sets the parent of the entity.
+   *
+   * - Entity will be removed from children of the previous parent, and {@link onChildRemoved} of the previous parent
+   *  will be dispatched.
+   * - Entity will be added to children of the new parent, and {@link onChildAdded} of the new parent will be dispatched.
+   * - If the parent is the same - no actions will be done.
+   *
+   * Removing the parent from the engine removes all its children as well.
+   *
+   * @throws Throws error if the passed parent is the entity itself or one of its descendants
+   * @param {Entity | undefined} parent New parent, or `undefined` to detach the entity from the current parent
+   * @returns {Entity} Reference to the entity itself. It helps to build chain of calls.
+   * @example
+   * ```ts
+   * const hero = new Entity().add(new Hero());
+   * const sword = new Entity()
+   *   .add(new Weapon())
+   *   .setParent(hero);
+   * ```
+   */
+  public setParent(parent: Entity | undefined): Entity {
+    const previousParent = this._parent;
+    if (previousParent === parent) return this;
+    let ancestor = parent;
+    while (ancestor !== undefined) {
+      if (ancestor === this) {
+        throw new Error('Entity can\'t be a child of itself or of its descendants');
+      }
+      ancestor = ancestor._parent;
+    }
+    if (previousParent !== undefined) {
+      previousParent._children.splice(previousParent._children.indexOf(this), 1);
+    }
+    this._parent = parent;
+    if (parent !== undefined) {
+      parent._children.push(this);
+    }
+    if (previousParent !== undefined && previousParent.onChildRemoved.hasHandlers) {
+      previousParent.onChildRemoved.emit(previousParent, this);
+    }
+    if (parent !== undefined && parent.onChildAdded.hasHandlers) {
+      parent.onChildAdded.emit(parent, this);
+    }
+    if (this.onParentChanged.hasHandlers) {
+      this.onParentChanged.emit(this, previousParent);
+    }
+    return this;
+  }
+
+  /**
+   * Adds a relation of specified class from the entity to the target entity.
+   * Relation class is used only as a key and is never instantiated, so one entity can have relations of the same class
+   * to several targets.
+   *
+   * - If the relation already exists - no actions will be done.
+   * - Otherwise {@link onRelationAdded} will be dispatched.
+   *
+   * Removing the target from the engine removes all relations to it.
+   *
+   * @param {Class<T>} relation Relation class
+   * @param {Entity} target Target entity
+   * @returns {Entity} Reference to the entity itself. It helps to build chain of calls.
+   * @example
+   * ```ts
+   * class Targets {}
+   * const turret = new Entity()
+   *   .add(new Turret())
+   *   .addRelation(Targets, enemy);
+   * ```
+   */
+  public addRelation<T>(relation: Class<T>, target: Entity): Entity {
+    let targets = this._relations.get(relation);
+    if (targets === undefined) {
+      targets = new Set();
+      this._relations.set(relation, targets);
+    }
+    if (targets.has(target)) return this;
+    targets.add(target);
+    let sources = target._relationSources.get(relation);
+    if (sources === undefined) {
+      sources = new Set();
+      target._relationSources.set(relation, sources);
+    }
+    sources.add(this);
+    if (this.onRelationAdded.hasHandlers) {
+      this.onRelationAdded.emit(this, relation, target);
+    }
+    return this;
+  }
+
+  /**
+   * Removes a relation of specified class from the entity to the target entity.
+   * If target is not passed - relations of specified class to all targets will be removed.
+   * {@link onRelationRemoved} will be dispatched for every removed relation.
+   *
+   * @param {Class<T>} relation Relation class
+   * @param {Entity} target Target entity
+   * @returns {Entity} Reference to the entity itself. It helps to build chain of calls.
+   */
+  public removeRelation<T>(relation: Class<T>, target?: Entity): Entity {
+    const targets = this._relations.get(relation);
+    if (targets === undefined) return this;
+    if (target !== undefined) {
+      if (targets.has(target)) {
+        this.deleteRelation(relation, target);
+      }
+    } else {
+      for (const value of Array.from(targets)) {
+        this.deleteRelation(relation, value);
+      }
+    }
+    return this;
+  }
+
+  /**
+   * Removes relations of all classes from the entity to other entities.
+   * {@link onRelationRemoved} will be dispatched for every removed relation.
+   */
+  public removeRelations(): void {
+    for (const [relation, targets] of Array.from(this._relations)) {
+      for (const target of Array.from(targets)) {
+        this.deleteRelation(relation, target);
+      }
+    }
+  }
+
+  /**
+   * Removes relations of all classes from other entities to the entity.
+   * {@link onRelationRemoved} of every source will be dispatched for every removed relation.
+   */
+  public removeRelationsToSelf(): void {
+    for (const [relation, sources] of Array.from(this._relationSources)) {
+      for (const source of Array.from(sources)) {
+        source.deleteRelation(relation, this);
+      }
+    }
+  }
+
+  /**
+   * Returns value indicating whether entity has a relation of specified class to the target entity.
+   * If target is not passed - checks whether entity has a relation of specified class to any entity.
+   *
+   * @param {Class<T>} relation Relation class
+   * @param {Entity} target Target entity
+   * @example
+   * ```ts
+   * if (turret.hasRelation(Targets)) {
+   *   fire(turret);
+   * }
+   * ```
+   */
+  public hasRelation<T>(relation: Class<T>, target?: Entity): boolean {
+    const targets = this._relations.get(relation);
+    if (targets === undefined) return false;
+    return target !== undefined ? targets.has(target) : targets.size > 0;
+  }
+
+  /**
+   * Returns value indicating whether entity is a target of a relation of specified class from the source entity.
+   * If source is not passed - checks whether entity is a target of a relation of specified class from any entity.
+   *
+   * @param {Class<T>} relation Relation class
+   * @param {Entity} source Source entity
+   */
+  public isTargetOf<T>(relation: Class<T>, source?: Entity): boolean {
+    const sources = this._relationSources.get(relation);
+    if (sources === undefined) return false;
+    return source !== undefined ? sources.has(source) : sources.size > 0;
+  }
+
+  /**
+   * Returns entities the entity has a relation of specified class to.
+   *
+   * @param {Class<T>} relation Relation class
+   * @returns {Entity[]} New array of target entities
+   */
+  public getRelationTargets<T>(relation: Class<T>): Entity[] {
+    const targets = this._relations.get(relation);
+    return targets !== undefined ? Array.from(targets) : [];
+  }
+
+  /**
+   * Returns entities that have a relation of specified class to the entity.
+   *
+   * @param {Class<T>} relation Relation class
+   * @returns {Entity[]} New array of source entities
+   */
+  public getRelationSources<T>(relation: Class<T>): Entity[] {
+    const sources = this._relationSources.get(relation);
+    return sources !== undefined ? Array.from(sources) : [];
+  }
+
   /**
    * Adds a component or tag to the entity.
    * It's a unified shorthand for {@link addComponent} and {@link addTag}.
@@ -469,7 +812,8 @@ export class Entity implements ReadonlyEntity {
       this.append(component as ILinkedComponent, resolveClass as Class<ILinkedComponent>);
     } else {
       this._components[id] = component;
-      this.dispatchOnComponentAdded(component);
+      this.trackAdded(id);
+      this.dispatchOnComponentAdded(component, componentClass);
     }
     return this;
   }
@@ -512,7 +856,8 @@ export class Entity implements ReadonlyEntity {
     if (this._components[componentId] === undefined) {
       this._components[componentId] = componentList.head;
     }
-    this.dispatchOnComponentAdded(component);
+    this.trackAdded(componentId);
+    this.dispatchOnComponentAdded(component, componentClass);
     return this;
   }
 
@@ -754,7 +1099,8 @@ export class Entity implements ReadonlyEntity {
       }
     } else {
       delete this._components[id];
-      this.dispatchOnComponentRemoved(value);
+      this._removedTicks[id] = ++changeTick;
+      this.dispatchOnComponentRemoved(value, componentClassOrTag);
     }
 
     return value as T;
@@ -779,9 +1125,13 @@ export class Entity implements ReadonlyEntity {
    * Removes all components and tags from entity
    */
   public clear(): void {
-    this._components = {};
-    this._linkedComponents = {};
+    clearRecord(this._components);
+    clearRecord(this._linkedComponents);
     this._tags.clear();
+    clearRecord(this._versions);
+    clearRecord(this._addedTicks);
+    clearRecord(this._changedTicks);
+    clearRecord(this._removedTicks);
   }
 
   /**
@@ -789,14 +1139,29 @@ export class Entity implements ReadonlyEntity {
    * Linked components structure will be copied by the link, because we can't duplicate linked list order without
    * cloning components itself. So modifying linked components in the copy will affect linked components in copy
    * source.
+   * The copy refers to the same parent, but it doesn't become a child of this parent.
+   * Relations are copied as they are at the moment, so later changes of relations don't affect the copy, but other
+   * entities don't know about relations of the copy.
    *
    * @param {Entity} entity
+   * @param {boolean} withRelations If false - relations are not copied, and the copy has no relations
    * @return {this}
    */
-  public copyFrom(entity: Entity): this {
-    this._components = Object.assign({}, entity._components);
-    this._linkedComponents = Object.assign({}, entity._linkedComponents);
-    this._tags = new Set(entity._tags);
+  public copyFrom(entity: Entity, withRelations: boolean = true): this {
+    assignRecord(this._components, entity._components);
+    assignRecord(this._linkedComponents, entity._linkedComponents);
+    this._tags.clear();
+    for (const tag of entity._tags) {
+      this._tags.add(tag);
+    }
+    this._parent = entity._parent;
+    if (withRelations) {
+      assignRelations(this._relations, entity._relations);
+      assignRelations(this._relationSources, entity._relationSources);
+    } else {
+      this._relations.clear();
+      this._relationSources.clear();
+    }
     return this;
   }
 
@@ -895,6 +1260,83 @@ export class Entity implements ReadonlyEntity {
     this.onInvalidationRequested.emit(this);
   }
 
+  /**
+   * Marks the component of specified class as changed, so its version will be increased and
+   * {@link onComponentChanged} will be dispatched. Engine re-validates queries with custom predicates for this entity,
+   * and queries built with {@link QueryBuilder.changed} will report the entity as changed.
+   *
+   * - If there is no component of specified class in the entity - no actions will be done.
+   *
+   * @param {Class<T>} componentClass Component class
+   * @returns {Entity} Reference to the entity itself. It helps to build chain of calls.
+   * @example
+   * ```ts
+   * entity.get(Position)!.x += 10;
+   * entity.markChanged(Position);
+   * ```
+   */
+  public markChanged<T>(componentClass: Class<T>): Entity {
+    const id = getComponentId(componentClass);
+    if (id === undefined || this._components[id] === undefined) return this;
+    this._versions[id] = (this._versions[id] ?? 0) + 1;
+    this._changedTicks[id] = ++changeTick;
+    if (this.onComponentChanged.hasHandlers) {
+      this.onComponentChanged.emit(this, this._components[id] as NonNullable<T>, componentClass as Class<NonNullable<T>>);
+    }
+    return this;
+  }
+
+  /**
+   * Returns version of the component of specified class.
+   * Version is increased every time when component is added to the entity or marked as changed.
+   *
+   * @param {Class<T>} componentClass
+   * @return {number}
+   */
+  public getVersion<T>(componentClass: Class<T>): number {
+    const id = getComponentId(componentClass);
+    if (id === undefined) return 0;
+    return this._versions[id] ?? 0;
+  }
+
+  /**
+   * Returns value indicating whether component of specified class was added to the entity after the change tick.
+   *
+   * @param {Class<T>} componentClass
+   * @param {number} tick Change tick
+   * @see {@link getChangeTick}
+   */
+  public isAddedSince<T>(componentClass: Class<T>, tick: number): boolean {
+    const id = getComponentId(componentClass);
+    return id !== undefined && this._components[id] !== undefined && this._addedTicks[id] > tick;
+  }
+
+  /**
+   * Returns value indicating whether component of specified class was added to the entity or marked as changed after
+   * the change tick.
+   *
+   * @param {Class<T>} componentClass
+   * @param {number} tick Change tick
+   * @see {@link getChangeTick}
+   */
+  public isChangedSince<T>(componentClass: Class<T>, tick: number): boolean {
+    const id = getComponentId(componentClass);
+    if (id === undefined || this._components[id] === undefined) return false;
+    return this._addedTicks[id] > tick || this._changedTicks[id] > tick;
+  }
+
+  /**
+   * Returns value indicating whether component of specified class was removed from the entity after the change tick.
+   *
+   * @param {Class<T>} componentClass
+   * @param {number} tick Change tick
+   * @see {@link getChangeTick}
+   */
+  public isRemovedSince<T>(componentClass: Class<T>, tick: number): boolean {
+    const id = getComponentId(componentClass);
+    return id !== undefined && this._removedTicks[id] > tick;
+  }
+
   /**
    * @internal
    * @param {EntitySnapshot} result
@@ -931,6 +1373,72 @@ export class Entity implements ReadonlyEntity {
     }
   }
 
+  /**
+   * Saves components, tags, change tracking data, hierarchy and relations of the entity.
+   * Components are saved as clones created by the passed function.
+   * @internal
+   */
+  public saveState(clone: ComponentClone): EntityState {
+    const components: Record<number, unknown> = {};
+    const linkedComponents: Record<number, unknown[]> = {};
+    for (const key of Object.keys(this._components)) {
+      const id = Number(key);
+      const list = this._linkedComponents[id];
+      if (list !== undefined) {
+        linkedComponents[id] = Array.from(list.nodes(), clone);
+      } else {
+        components[id] = clone(this._components[id]);
+      }
+    }
+    return {
+      components,
+      linkedComponents,
+      tags: Array.from(this._tags),
+      versions: Object.assign({}, this._versions),
+      addedTicks: Object.assign({}, this._addedTicks),
+      changedTicks: Object.assign({}, this._changedTicks),
+      removedTicks: Object.assign({}, this._removedTicks),
+      parent: this._parent,
+      children: this._children.concat(),
+      relations: copyRelations(this._relations),
+      relationSources: copyRelations(this._relationSources),
+    };
+  }
+
+  /**
+   * Restores the state saved with {@link saveState} without dispatching any signals.
+   * Components are restored as clones created by the passed function, so the state can be restored several times.
+   * @internal
+   */
+  public restoreState(state: EntityState, clone: ComponentClone): void {
+    this._components = {};
+    this._linkedComponents = {};
+    for (const key of Object.keys(state.components)) {
+      const id = Number(key);
+      this._components[id] = clone(state.components[id]);
+    }
+    for (const key of Object.keys(state.linkedComponents)) {
+      const id = Number(key);
+      const list = new LinkedComponentList<ILinkedComponent>();
+      for (const component of state.linkedComponents[id]) {
+        const linkedComponent = clone(component) as ILinkedComponent;
+        linkedComponent.next = undefined;
+        list.add(linkedComponent);
+      }
+      this._linkedComponents[id] = list;
+      this._components[id] = list.head;
+    }
+    this._tags = new Set(state.tags);
+    this._versions = Object.assign({}, state.versions);
+    this._addedTicks = Object.assign({}, state.addedTicks);
+    this._changedTicks = Object.assign({}, state.changedTicks);
+    this._removedTicks = Object.assign({}, state.removedTicks);
+    this._parent = state.parent;
+    this._children = state.children.concat();
+    this._relations = copyRelations(state.relations);
+    this._relationSources = copyRelations(state.relationSources);
+  }
+
   /**
    * @internal
    */
@@ -958,20 +1466,41 @@ export class Entity implements ReadonlyEntity {
       this._components[componentId] = componentList.head;
     }
     if (result !== undefined) {
-      this.dispatchOnComponentRemoved(result);
+      this._removedTicks[componentId] = ++changeTick;
+      this.dispatchOnComponentRemoved(result, componentClass);
     }
     return result;
   }
 
-  private dispatchOnComponentAdded<T>(component: NonNullable<T>): void {
+  private trackAdded(componentId: number): void {
+    this._versions[componentId] = (this._versions[componentId] ?? 0) + 1;
+    this._addedTicks[componentId] = ++changeTick;
+  }
+
+  private deleteRelation(relation: Class<unknown>, target: Entity): void {
+    const targets = this._relations.get(relation)!;
+    targets.delete(target);
+    if (targets.size === 0) {
+      this._relations.delete(relation);
+    }
+    const sources = target._relationSources.get(relation);
+    if (sources !== undefined && sources.delete(this) && sources.size === 0) {
+      target._relationSources.delete(relation);
+    }
+    if (this.onRelationRemoved.hasHandlers) {
+      this.onRelationRemoved.emit(this, relation, target);
+    }
+  }
+
+  private dispatchOnComponentAdded<T>(component: NonNullable<T>, componentClass?: Class<any>): void {
     if (this.onComponentAdded.hasHandlers) {
-      this.onComponentAdded.emit(this, component);
+      this.onComponentAdded.emit(this, component, componentClass);
     }
   }
 
-  private dispatchOnComponentRemoved<T>(value: NonNullable<T>): void {
+  private dispatchOnComponentRemoved<T>(value: NonNullable<T>, componentClass?: Class<any>): void {
     if (this.onComponentRemoved.hasHandlers) {
-      this.onComponentRemoved.emit(this, value);
+      this.onComponentRemoved.emit(this, value, componentClass);
     }
   }
 }
@@ -1011,6 +1540,17 @@ export class EntitySnapshot {
   public get previous(): ReadonlyEntity {
     return this._previous;
   }
+
+  /**
+   * Creates a copy of the snapshot, that isn't affected by further changes of this one
+   * @internal
+   */
+  public clone(): EntitySnapshot {
+    const result = new EntitySnapshot();
+    result._current = this._current;
+    (result._previous as Entity).copyFrom(this._previous as Entity);
+    return result;
+  }
 }
 
 /**
@@ -1020,7 +1560,98 @@ export class EntitySnapshot {
  */
 export type ComponentUpdateHandler = <T>(entity: Entity, component: NonNullable<T>, componentClass?: Class<NonNullable<T>>) => void;
 
+/**
+ * Function that creates a copy of the component
+ * @see {@link Engine.registerClone}
+ */
+export type ComponentClone = (component: unknown) => unknown;
+
+/**
+ * Saved state of the entity
+ * @internal
+ */
+export interface EntityState {
+  readonly components: Readonly<Record<number, unknown>>;
+  readonly linkedComponents: Readonly<Record<number, ReadonlyArray<unknown>>>;
+  readonly tags: ReadonlyArray<Tag>;
+  readonly versions: Readonly<Record<number, number>>;
+  readonly addedTicks: Readonly<Record<number, number>>;
+  readonly changedTicks: Readonly<Record<number, number>>;
+  readonly removedTicks: Readonly<Record<number, number>>;
+  readonly parent: Entity | undefined;
+  readonly children: ReadonlyArray<Entity>;
+  readonly relations: ReadonlyMap<Class<unknown>, ReadonlySet<Entity>>;
+  readonly relationSources: ReadonlyMap<Class<unknown>, ReadonlySet<Entity>>;
+}
+
+/**
+ * Relation update handler type.
+ * @see {@link Entity.onRelationAdded}
+ * @see {@link Entity.onRelationRemoved}
+ */
+export type RelationUpdateHandler = (source: Entity, relation: Class<unknown>, target: Entity) => void;
+
+/**
+ * Returns the current value of the change tick.
+ * Change tick is increased every time when any component is added to, removed from or marked as changed in any entity.
+ * Save it to find out later which components were changed after that moment.
+ *
+ * @return {number}
+ * @see {@link Entity.isAddedSince}, {@link Entity.isChangedSince}, {@link Entity.isRemovedSince}
+ */
+export function getChangeTick(): number {
+  return changeTick;
+}
+
+/**
+ * Advances the change tick to the passed value, if it's greater than the current one.
+ * Change tick is shared by all engines, so it never goes back, otherwise restoring the saved state of one engine would
+ * hide changes made in other engines.
+ * @internal
+ */
+export function advanceChangeTick(tick: number): void {
+  if (tick > changeTick) {
+    changeTick = tick;
+  }
+}
+
+function clearRecord(record: Record<number, unknown>): void {
+  for (const key in record) {
+    delete record[key];
+  }
+}
+
+function assignRecord<T>(target: Record<number, T>, source: Readonly<Record<number, T>>): void {
+  clearRecord(target);
+  for (const key in source) {
+    target[key] = source[key];
+  }
+}
+
+function assignRelations(
+  target: Map<Class<unknown>, Set<Entity>>,
+  source: ReadonlyMap<Class<unknown>, ReadonlySet<Entity>>,
+): void {
+  target.clear();
+  for (const [relation, entities] of source) {
+    target.set(relation, new Set(entities));
+  }
+}
+
+function copyRelations(relations: ReadonlyMap<Class<unknown>, ReadonlySet<Entity>>): Map<Class<unknown>, Set<Entity>> {
+  const result: Map<Class<unknown>, Set<Entity>> = new Map();
+  for (const [relation, entities] of relations) {
+    result.set(relation, new Set(entities));
+  }
+  return result;
+}
+
 /**
  * Entity ids enumerator
  */
-let entityId: number = 1;
\ No newline at end of file
+let entityId: number = 1;
+
+/**
+ * Change ticks enumerator
+ */
+let changeTick: number = 0;
\ No newline at end of file
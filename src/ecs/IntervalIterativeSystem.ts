@@ -0,0 +1,107 @@
+import {Query, QueryBuilder, QueryPredicate} from './Query';
+import {IterativeSystem} from './IterativeSystem';
+import {IntervalOptions, IntervalTimer} from './IntervalSystem';
+import {getChangeTick} from './Entity';
+
+/**
+ * Interval iterative system configuration
+ */
+export interface IntervalIterativeOptions extends IntervalOptions {
+  /**
+   * Number of slices, that entities of the query are split into, `1` by default.
+   * Every slice is updated at its own part of the interval with the time passed since its previous update, so the work
+   * is spread across frames. All slices, which parts of the interval passed, are updated in the same engine update,
+   * but with `skip` policy every slice is updated at most once per engine update.
+   * The entity belongs to the slice by its index in the query, so an entity could be skipped or updated twice when the
+   * query changes.
+   */
+  slices?: number;
+}
+
+/**
+ * Iterative system, that accumulates delta time and iterates over entities of its query at the interval.
+ *
+ * @example
+ * ```ts
+ * class AiSystem extends IntervalIterativeSystem {
+ *   public constructor() {
+ *     // Every entity is updated every 250ms, a quarter of them at a time
+ *     super(new QueryBuilder().contains(Brain), {interval: 0.25, slices: 4});
+ *   }
+ *
+ *   protected updateEntity(entity: Entity, dt: number): void {
+ *     entity.get(Brain)!.think(dt);
+ *   }
+ * }
+ * ```
+ */
+export abstract class IntervalIterativeSystem extends IterativeSystem {
+  private readonly _timer: IntervalTimer;
+  private readonly _slices: number;
+  private _slice: number = 0;
+  private _sliceTicks: number[];
+  private _ran: boolean = false;
+
+  protected constructor(query: Query | QueryBuilder | QueryPredicate, options: IntervalIterativeOptions) {
+    super(query);
+    const slices = options.slices ?? 1;
+    if (slices < 1 || Math.floor(slices) !== slices) {
+      throw new Error('Number of slices should be a positive integer');
+    }
+    this._slices = slices;
+    this._sliceTicks = new Array(slices).fill(0);
+    this._timer = new IntervalTimer(options, slices);
+  }
+
+  public update(dt: number) {
+    this._timer.advance(dt, this.runInterval);
+  }
+
+  /**
+   * Updates {@link lastRunTick} only if any slice was updated
+   * @internal
+   */
+  public completeUpdate(tick: number): void {
+    if (!this._ran) return;
+    this._ran = false;
+    super.completeUpdate(tick);
+  }
+
+  /**
+   * Returns the state of the interval timer and slices. Call it from the overridden method and save the result as well.
+   * @see {@link System.saveState}
+   */
+  public saveState(): unknown {
+    return [this._timer.saveState(), this._slice, this._sliceTicks.concat()];
+  }
+
+  /**
+   * Restores the state of the interval timer and slices. Call it from the overridden method with the result of the
+   * base {@link saveState}.
+   * @see {@link System.restoreState}
+   */
+  public restoreState(state: unknown): void {
+    const [timerState, slice, sliceTicks] = state as [unknown, number, number[]];
+    this._timer.restoreState(timerState);
+    this._slice = slice;
+    this._sliceTicks = sliceTicks.concat();
+  }
+
+  /**
+   * Updates entities of the current slice. If the query has change filter - entities, that weren't changed since the
+   * previous update of the slice, are skipped.
+   *
+   * @param dt Time in seconds passed since the previous update of the slice
+   */
+  protected updateEntities(dt: number) {
+    const slice = this._slice;
+    this._slice = (slice + 1) % this._slices;
+    this.iterateEntities(dt, this._sliceTicks[slice], slice, this._slices);
+    this._sliceTicks[slice] = getChangeTick();
+  }
+
+  private runInterval = (dt: number) => {
+    this._ran = true;
+    this.updateEntities(dt);
+  };
+}
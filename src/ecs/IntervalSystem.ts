@@ -0,0 +1,185 @@
+import {System} from './System';
+
+/**
+ * Policy of the interval system, when several intervals passed since its last run
+ * - `skip` - system is updated once with the whole accumulated time. Time left over from the passed intervals is
+ *  accumulated further, so runs stay aligned to the interval.
+ * - `catchUp` - system is updated once for every passed interval with the interval time, the rest of the time is
+ *  accumulated further.
+ */
+export type IntervalPolicy = 'skip' | 'catchUp';
+
+/**
+ * Interval system configuration. Either `interval` or `frames` should be specified.
+ */
+export interface IntervalOptions {
+  /**
+   * Interval in seconds between runs of the system
+   */
+  interval?: number;
+  /**
+   * Number of engine updates between runs of the system
+   */
+  frames?: number;
+  /**
+   * Policy, when several intervals passed since the last run, `skip` by default.
+   * It's applied only to the `interval` in seconds.
+   * @see IntervalPolicy
+   */
+  policy?: IntervalPolicy;
+}
+
+/**
+ * System, that accumulates delta time and runs at the interval with the accumulated time.
+ *
+ * @example
+ * ```ts
+ * class EconomySystem extends IntervalSystem {
+ *   public constructor() {
+ *     super({interval: 0.25});
+ *   }
+ *
+ *   protected updateInterval(dt: number): void {
+ *     this.sharedConfig.get(Economy)!.collectIncome(dt);
+ *   }
+ * }
+ * ```
+ */
+export abstract class IntervalSystem extends System {
+  private readonly _timer: IntervalTimer;
+  private _ran: boolean = false;
+
+  protected constructor(options: IntervalOptions) {
+    super();
+    this._timer = new IntervalTimer(options);
+  }
+
+  public update(dt: number) {
+    this._timer.advance(dt, this.runInterval);
+  }
+
+  /**
+   * Updates {@link lastRunTick} only if the interval ran
+   * @internal
+   */
+  public completeUpdate(tick: number): void {
+    if (!this._ran) return;
+    this._ran = false;
+    super.completeUpdate(tick);
+  }
+
+  /**
+   * Returns the state of the interval timer. Call it from the overridden method and save the result as well.
+   * @see {@link System.saveState}
+   */
+  public saveState(): unknown {
+    return this._timer.saveState();
+  }
+
+  /**
+   * Restores the state of the interval timer. Call it from the overridden method with the result of the base
+   * {@link saveState}.
+   * @see {@link System.restoreState}
+   */
+  public restoreState(state: unknown): void {
+    this._timer.restoreState(state);
+  }
+
+  /**
+   * Update logic of the system, that runs at the interval
+   *
+   * @param dt Accumulated time in seconds
+   */
+  protected abstract updateInterval(dt: number): void;
+
+  private runInterval = (dt: number) => {
+    this._ran = true;
+    this.updateInterval(dt);
+  };
+}
+
+/**
+ * Accumulates time and frames, and runs action at the interval.
+ * Interval could be divided into several parts, then action runs at every part, as many times per update as parts are
+ * due, and every run gets the time passed since the run of the same part in the previous interval.
+ * With `skip` policy every part runs at most once per update.
+ * @internal
+ */
+export class IntervalTimer {
+  private readonly _interval?: number;
+  private readonly _frames?: number;
+  private readonly _divider: number;
+  private readonly _policy: IntervalPolicy;
+  private _time: number = 0;
+  private _frameCount: number = 0;
+  private _part: number = 0;
+  private _partTimes: number[];
+
+  /**
+   * @throws Throws error if neither or both `interval` and `frames` are specified, or if they are not positive
+   */
+  public constructor(options: IntervalOptions, divider: number = 1) {
+    if ((options.interval === undefined) === (options.frames === undefined)) {
+      throw new Error('Either interval or frames should be specified');
+    }
+    if (options.interval !== undefined && options.interval <= 0) {
+      throw new Error('Interval should be greater than zero');
+    }
+    if (options.frames !== undefined && options.frames < 1) {
+      throw new Error('Number of frames should be at least 1');
+    }
+    this._interval = options.interval;
+    this._frames = options.frames;
+    this._divider = divider;
+    this._policy = options.policy ?? 'skip';
+    this._partTimes = new Array(divider).fill(0);
+  }
+
+  public advance(dt: number, action: (dt: number) => void): void {
+    for (let part = 0; part < this._divider; part++) {
+      this._partTimes[part] += dt;
+    }
+    const runs = this._frames !== undefined ? this.countFrameRuns() : this.countIntervalRuns(dt);
+    for (let run = 0; run < runs; run++) {
+      const part = this._part;
+      this._part = (part + 1) % this._divider;
+      const time = this._interval !== undefined && this._policy === 'catchUp' ? this._interval : this._partTimes[part];
+      this._partTimes[part] = 0;
+      action(time);
+    }
+  }
+
+  public saveState(): unknown {
+    return [this._time, this._frameCount, this._part, this._partTimes.concat()];
+  }
+
+  public restoreState(state: unknown): void {
+    const [time, frameCount, part, partTimes] = state as [number, number, number, number[]];
+    this._time = time;
+    this._frameCount = frameCount;
+    this._part = part;
+    this._partTimes = partTimes.concat();
+  }
+
+  private countFrameRuns(): number {
+    // Frames are counted in parts, so the number of frames doesn't have to be divisible by the number of parts
+    this._frameCount += this._divider;
+    const runs = Math.floor(this._frameCount / this._frames!);
+    this._frameCount -= runs * this._frames!;
+    return runs;
+  }
+
+  private countIntervalRuns(dt: number): number {
+    const interval = this._interval! / this._divider;
+    let runs = 0;
+    this._time += dt;
+    while (this._time >= interval && (this._policy === 'catchUp' || runs < this._divider)) {
+      this._time -= interval;
+      runs++;
+    }
+    if (this._policy === 'skip' && runs === this._divider) {
+      this._time %= interval;
+    }
+    return runs;
+  }
+}
@@ -1,7 +1,198 @@
 import {Query, QueryBuilder, QueryPredicate} from './Query';
-import {Entity} from './Entity';
+import {Entity, EntitySnapshot, getChangeTick} from './Entity';
 import {ReactionSystem} from './ReactionSystem';
 
+/**
+ * Budget of the iterative system per update. At least one of the limits should be specified.
+ * @see {@link IterativeSystemOptions}
+ */
+export interface IterativeSystemBudget {
+  /**
+   * Maximum number of updated entities per update
+   */
+  entities?: number;
+  /**
+   * Maximum time in milliseconds spent on updating entities per update.
+   * At least one entity is updated every update regardless of this limit.
+   */
+  milliseconds?: number;
+}
+
+/**
+ * Iterative system configuration
+ */
+export interface IterativeSystemOptions {
+  /**
+   * Budget per update. If it's specified, a sweep over entities of the query can take several updates: the system
+   * stops when the budget is exhausted and resumes from where it stopped on the next update.
+   * Entities added to the query during the sweep are updated within it, and removed ones are skipped.
+   * Every entity gets the time passed since its previous update as the delta time.
+   */
+  budget?: IterativeSystemBudget;
+}
+
+/**
+ * Base class of the iterative systems. It iterates over entities of its query every update, and passes them to
+ * {@link visitEntity}.
+ * @see {@link IterativeSystem}, {@link TypedIterativeSystem}
+ */
+export abstract class AbstractIterativeSystem extends ReactionSystem {
+  private _removed: boolean = false;
+  private readonly _budget?: IterativeSystemBudget;
+  private _pending: Entity[] = [];
+  private _queued: Set<Entity> = new Set();
+  private _cursor: number = 0;
+  private _sweeping: boolean = false;
+  private _sweepPasses: number = 0;
+  private _lastSweepPasses: number = 0;
+  private _sweepTick: number = 0;
+  private _previousSweepTick: number = 0;
+  private _time: number = 0;
+  private _updateTimes: Map<Entity, number> = new Map();
+
+  /**
+   * @throws Throws error if the budget has no limits, or limits are not positive
+   */
+  protected constructor(query: Query | QueryBuilder | QueryPredicate, options: IterativeSystemOptions = {}) {
+    super(query);
+    const budget = options.budget;
+    if (budget !== undefined) {
+      if (budget.entities === undefined && budget.milliseconds === undefined) {
+        throw new Error('Budget of the iterative system should limit entities or milliseconds');
+      }
+      if ((budget.entities !== undefined && budget.entities < 1) || (budget.milliseconds !== undefined && budget.milliseconds <= 0)) {
+        throw new Error('Budget limits of the iterative system should be positive');
+      }
+      this._budget = budget;
+    }
+  }
+
+  /**
+   * Gets a number of updates the last complete sweep over entities of the query took, when the budget is specified.
+   * It's `0` until the first sweep is completed.
+   * @see {@link IterativeSystemOptions.budget}
+   */
+  public get lastSweepPasses(): number {
+    return this._lastSweepPasses;
+  }
+
+  public update(dt: number) {
+    this.updateEntities(dt);
+  }
+
+  public onAddedToEngine() {
+    this._removed = false;
+    super.onAddedToEngine();
+    if (this._budget !== undefined) {
+      this.query.onEntityAdded.connect(this.onBudgetEntityAdded);
+      this.query.onEntityRemoved.connect(this.onBudgetEntityRemoved);
+    }
+  }
+
+  public onRemovedFromEngine() {
+    this._removed = true;
+    if (this._budget !== undefined) {
+      this.query.onEntityAdded.disconnect(this.onBudgetEntityAdded);
+      this.query.onEntityRemoved.disconnect(this.onBudgetEntityRemoved);
+      this.resetSweep();
+      this._updateTimes.clear();
+    }
+    super.onRemovedFromEngine();
+  }
+
+  protected updateEntities(dt: number) {
+    if (this._budget !== undefined) {
+      this.updateBudgetedEntities(dt, this._budget);
+      return;
+    }
+    this.iterateEntities(dt, this.lastRunTick);
+  }
+
+  /**
+   * Updates every `step`-th entity of the query starting from `start`.
+   * If the query has change filter - entities, that weren't changed since the tick, are skipped.
+   * Entities of the sorted query are updated in the order they had before the update, even if they are moved or
+   * removed meanwhile.
+   *
+   * @param dt Delta time in seconds
+   * @param sinceTick Change tick, that changes are checked since
+   * @param start Index of the first entity to update
+   * @param step Step between indices of updated entities
+   */
+  protected iterateEntities(dt: number, sinceTick: number, start: number = 0, step: number = 1) {
+    const query = this.query;
+    const hasChangeFilter = query.hasChangeFilter;
+    const isSorted = query.isSorted;
+    const entities = isSorted ? query.entities.concat() : query.entities;
+    for (let i = start; i < entities.length; i += step) {
+      if (this._removed) return;
+      const entity = entities[i];
+      if (isSorted && !query.has(entity)) continue;
+      if (hasChangeFilter && !query.isChangedSince(entity, sinceTick)) continue;
+      this.visitEntity(entity, dt);
+    }
+  }
+
+  private updateBudgetedEntities(dt: number, budget: IterativeSystemBudget) {
+    const query = this.query;
+    const hasChangeFilter = query.hasChangeFilter;
+    this._time += dt;
+    if (!this._sweeping) {
+      this._sweeping = true;
+      this._pending = query.entities.concat();
+      this._queued = new Set(this._pending);
+      this._previousSweepTick = this._sweepTick;
+      this._sweepTick = getChangeTick();
+    }
+    this._sweepPasses++;
+    const start = budget.milliseconds !== undefined ? now() : 0;
+    let count = 0;
+    while (this._cursor < this._pending.length) {
+      if (this._removed) return;
+      const entity = this._pending[this._cursor++];
+      if (!query.has(entity)) continue;
+      if (hasChangeFilter && !query.isChangedSince(entity, this._previousSweepTick)) continue;
+      const entityDt = this._time - (this._updateTimes.get(entity) ?? this._time - dt);
+      this._updateTimes.set(entity, this._time);
+      this.visitEntity(entity, entityDt);
+      count++;
+      if (budget.entities !== undefined && count >= budget.entities) break;
+      if (budget.milliseconds !== undefined && now() - start >= budget.milliseconds) break;
+    }
+    if (this._cursor >= this._pending.length) {
+      this._lastSweepPasses = this._sweepPasses;
+      this.resetSweep();
+    }
+  }
+
+  private resetSweep() {
+    this._sweeping = false;
+    this._sweepPasses = 0;
+    this._pending = [];
+    this._queued.clear();
+    this._cursor = 0;
+  }
+
+  private onBudgetEntityAdded = ({current}: EntitySnapshot) => {
+    if (this._sweeping && !this._queued.has(current)) {
+      this._queued.add(current);
+      this._pending.push(current);
+    }
+  };
+
+  private onBudgetEntityRemoved = ({current}: EntitySnapshot) => {
+    this._updateTimes.delete(current);
+  };
+
+  /**
+   * Visits entity of the query during the iteration
+   *
+   * @param entity Entity to update
+   * @param dt Delta time in seconds
+   */
+  protected abstract visitEntity(entity: Entity, dt: number): void;
+}
+
 /**
  * Iterative system made for iterating over entities that matches its query.
  *
@@ -36,32 +227,16 @@ import {ReactionSystem} from './ReactionSystem';
  * }
  * ```
  */
-export abstract class IterativeSystem extends ReactionSystem {
-  private _removed: boolean = false;
-
-  protected constructor(query: Query | QueryBuilder | QueryPredicate) {
-    super(query);
-  }
-
-  public update(dt: number) {
-    this.updateEntities(dt);
-  }
-
-  public onAddedToEngine() {
-    this._removed = false;
-    super.onAddedToEngine();
-  }
-
-  public onRemovedFromEngine() {
-    this._removed = true;
-    super.onRemovedFromEngine();
+export abstract class IterativeSystem extends AbstractIterativeSystem {
+  /**
+   * @throws Throws error if the budget has no limits, or limits are not positive
+   */
+  protected constructor(query: Query | QueryBuilder | QueryPredicate, options: IterativeSystemOptions = {}) {
+    super(query, options);
   }
 
-  protected updateEntities(dt: number) {
-    for (let entity of this.query.entities) {
-      if (this._removed) return;
-      this.updateEntity(entity, dt);
-    }
+  protected visitEntity(entity: Entity, dt: number): void {
+    this.updateEntity(entity, dt);
   }
 
   /**
@@ -72,3 +247,7 @@ export abstract class IterativeSystem extends ReactionSystem {
    */
   protected abstract updateEntity(entity: Entity, dt: number): void;
 }
+
+function now(): number {
+  return typeof performance !== 'undefined' ? performance.now() : Date.now();
+}
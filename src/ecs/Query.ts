@@ -12,11 +12,118 @@ import {isLinkedComponent} from './LinkedComponent';
  */
 export type QueryPredicate = (entity: Entity) => boolean;
 
+/**
+ * Components and tags of an entity or an archetype, which is enough to match queries built with {@link QueryBuilder}.
+ * @internal
+ */
+export interface QueryMatchTarget {
+  readonly components: Readonly<Record<number, unknown>>;
+  readonly tags: ReadonlySet<Tag>;
+}
+
+/**
+ * Matcher, that determines whether the set of components and tags meets the query conditions.
+ * @internal
+ */
+export type QueryMatcher = (target: QueryMatchTarget) => boolean;
+
+/**
+ * Describes what can affect the query matching.
+ * @internal
+ */
+export interface QueryDependencies extends ReadonlyQueryClause {
+  /**
+   * Matcher that can replace the predicate, if matching depends only on components and tags.
+   */
+  readonly matcher?: QueryMatcher;
+  /**
+   * Indicates that matching depends on the parent of the entity.
+   */
+  readonly hierarchy?: boolean;
+  /**
+   * Indicates that matching depends on relations of the entity.
+   */
+  readonly relations?: boolean;
+}
+
+/**
+ * Component classes, whose changes are tracked by the query.
+ * @see {@link QueryBuilder.added}, {@link QueryBuilder.changed}, {@link QueryBuilder.removed}
+ * @internal
+ */
+export interface QueryChangeFilter {
+  readonly added: ReadonlyArray<Class<unknown>>;
+  readonly changed: ReadonlyArray<Class<unknown>>;
+  readonly removed: ReadonlyArray<Class<unknown>>;
+}
+
+/**
+ * Comparator of entities, that returns negative number if the first entity goes before the second one, positive number
+ * if it goes after, and zero if their order doesn't matter.
+ * @see {@link QueryOptions.sortBy}
+ */
+export type QueryComparator = (a: Entity, b: Entity) => number;
+
+/**
+ * Types of the components of the component classes, tags are skipped
+ * @example
+ * ```ts
+ * // [Position, Velocity]
+ * type Components = QueryComponents<[typeof Position, typeof PLAYER, typeof Velocity]>;
+ * ```
+ */
+export type QueryComponents<T extends unknown[]> = T extends [infer Head, ...infer Tail]
+  ? Head extends Class<infer Component> ? [Component, ...QueryComponents<Tail>] : QueryComponents<Tail>
+  : [];
+
+/**
+ * Types of the optional components of the component classes, every component can be `undefined`
+ * @see {@link QueryBuilder.optional}
+ */
+export type OptionalQueryComponents<T extends unknown[]> = T extends [infer Head, ...infer Tail]
+  ? Head extends Class<infer Component>
+    ? [Component | undefined, ...OptionalQueryComponents<Tail>]
+    : OptionalQueryComponents<Tail>
+  : [];
+
+/**
+ * Types of the components of the query, extended with the types of components.
+ * Components of the query are unknown until the first components are specified, so they are replaced in that case.
+ */
+export type AppendQueryComponents<C extends unknown[], T extends unknown[]> = unknown[] extends C ? T : [...C, ...T];
+
+/**
+ * Tuple of the entity and its components in the order they were specified with {@link QueryBuilder.contains},
+ * {@link QueryBuilder.added} and {@link QueryBuilder.changed}
+ * @see {@link Query.getTuple}
+ */
+export type QueryTuple<C extends unknown[]> = [Entity, ...C];
+
+/**
+ * Query options
+ */
+export interface QueryOptions {
+  /**
+   * If `true` - entities in the query will be kept in the order they were added to the query.
+   * Otherwise the last entity of the query takes place of the removed one, which makes removal cheaper.
+   * Default value is `false`.
+   */
+  preserveOrder?: boolean;
+  /**
+   * Comparator, that entities of the query are kept sorted by. Entities are inserted at their places with binary
+   * search, entities with equal keys are kept in the order they were added.
+   * Entity takes its new place when {@link Entity.invalidate} is called, or when component passed to
+   * {@link QueryBuilder.sortBy} is marked as changed.
+   */
+  sortBy?: QueryComparator;
+}
+
 /**
  * Query represents list of entities that matches query request.
+ * Query built with {@link QueryBuilder} knows types of the components it contains, and provides them as tuples.
  * @see QueryBuilder
  */
-export class Query {
+export class Query<C extends unknown[] = unknown[]> {
   /**
    * Signal dispatches if new matched entity were added
    */
@@ -30,14 +137,75 @@ export class Query {
   private readonly _snapshot: EntitySnapshot = new EntitySnapshot();
 
   private readonly _predicate: QueryPredicate;
+  private readonly _preserveOrder: boolean;
+  private readonly _comparator?: QueryComparator;
+  private _sortComponents: ReadonlySet<number> = new Set();
   private _entities: Entity[] = [];
+  private _indices: Map<number, number> = new Map();
+  private _dependencies?: QueryDependencies;
+  private _changeFilter?: QueryChangeFilter;
+  private _componentClasses: ReadonlyArray<Class<unknown>> = [];
+  private _optionalComponents: ReadonlySet<number> = new Set();
+  private readonly _tuple: unknown[] = [];
 
   /**
    * Initializes Query instance
    * @param predicate Matching predicate
+   * @param options Query options
    */
-  public constructor(predicate: QueryPredicate) {
+  public constructor(predicate: QueryPredicate, options: QueryOptions = {}) {
     this._predicate = predicate;
+    this._preserveOrder = options.preserveOrder ?? false;
+    this._comparator = options.sortBy;
+  }
+
+  /**
+   * Gets a value indicating that entities in the query are kept sorted
+   * @see {@link QueryOptions.sortBy}
+   */
+  public get isSorted(): boolean {
+    return this._comparator !== undefined;
+  }
+
+  /**
+   * Identifiers of components, which changes make entity to take its new place in the sorted query
+   * @internal
+   */
+  public get sortComponents(): ReadonlySet<number> {
+    return this._sortComponents;
+  }
+
+  /**
+   * Gets a value indicating that entities in the query are kept in the order they were added to the query
+   */
+  public get preserveOrder(): boolean {
+    return this._preserveOrder;
+  }
+
+  /**
+   * Component identifiers, tags and hierarchy of the entity that can affect the query matching.
+   * If it's undefined, the query can depend on any component or tag.
+   * @internal
+   */
+  public get dependencies(): QueryDependencies | undefined {
+    return this._dependencies;
+  }
+
+  /**
+   * Matcher, that determines query matching only by components and tags.
+   * If it's defined, the query can be matched against archetypes instead of individual entities.
+   * @internal
+   */
+  public get matcher(): QueryMatcher | undefined {
+    return this._dependencies?.matcher;
+  }
+
+  /**
+   * Gets a value indicating that query tracks changes of the components.
+   * @see {@link isChangedSince}
+   */
+  public get hasChangeFilter(): boolean {
+    return this._changeFilter !== undefined;
   }
 
   /**
@@ -106,13 +274,51 @@ export class Query {
     return this._entities.filter(predicate);
   }
 
+  /**
+   * Returns a tuple of the entity and its components of the query.
+   * The same tuple is returned every time, so it shouldn't be kept - copy it if it's needed.
+   * @param {Entity} entity Entity of the query
+   * @returns {QueryTuple<C>} Entity and its components
+   * @example
+   * ```ts
+   * const query = new QueryBuilder().contains(Position, Velocity).build();
+   * const [entity, position, velocity] = query.getTuple(query.first!);
+   * ```
+   */
+  public getTuple(entity: Entity): QueryTuple<C> {
+    const tuple = this._tuple;
+    const componentClasses = this._componentClasses;
+    tuple[0] = entity;
+    for (let i = 0; i < componentClasses.length; i++) {
+      tuple[i + 1] = entity.get(componentClasses[i]);
+    }
+    return tuple as QueryTuple<C>;
+  }
+
+  /**
+   * Iterates over tuples of entities of the query and their components.
+   * The same tuple is yielded for every entity, so it shouldn't be kept - copy it if it's needed.
+   * @see {@link getTuple}
+   * @example
+   * ```ts
+   * for (const [entity, position, velocity] of query.tuples()) {
+   *   position.x += velocity.x * dt;
+   * }
+   * ```
+   */
+  public *tuples(): IterableIterator<QueryTuple<C>> {
+    for (const entity of this._entities) {
+      yield this.getTuple(entity);
+    }
+  }
+
   /**
    * Returns a value that indicates whether the entity is in the Query.
    * @param {Entity} entity
    * @returns {boolean}
    */
   public has(entity: Entity): boolean {
-    return this._entities.indexOf(entity) !== -1;
+    return this._indices.has(entity.id);
   }
 
   /**
@@ -137,15 +343,121 @@ export class Query {
    */
   public clear(): void {
     this._entities = [];
+    this._indices.clear();
+  }
+
+  /**
+   * Replaces entities of the query without dispatching any signals.
+   * @internal
+   */
+  public restoreEntities(entities: ReadonlyArray<Entity>): void {
+    this._entities = entities.concat();
+    this._indices.clear();
+    for (let i = 0; i < this._entities.length; i++) {
+      this._indices.set(this._entities[i].id, i);
+    }
+  }
+
+  /**
+   * Sets component identifiers, tags and hierarchy of the entity that can affect the query matching.
+   * Engine notifies the query only about changes of these components, tags and hierarchy.
+   * @internal
+   */
+  public setDependencies(dependencies: QueryDependencies): void {
+    this._dependencies = dependencies;
+  }
+
+  /**
+   * Sets component classes, that components of the tuples are taken by
+   * @internal
+   */
+  public setComponentClasses(componentClasses: ReadonlyArray<Class<unknown>>): void {
+    this._componentClasses = componentClasses;
+  }
+
+  /**
+   * Identifiers of optional components, which addition and removal re-notify about the entity
+   * @see {@link QueryBuilder.optional}
+   * @internal
+   */
+  public get optionalComponents(): ReadonlySet<number> {
+    return this._optionalComponents;
+  }
+
+  /**
+   * Sets identifiers of optional components, which addition and removal re-notify about the entity
+   * @internal
+   */
+  public setOptionalComponents(componentIds: ReadonlySet<number>): void {
+    this._optionalComponents = componentIds;
+  }
+
+  /**
+   * Sets identifiers of components, which changes make entity to take its new place in the sorted query
+   * @internal
+   */
+  public setSortComponents(componentIds: ReadonlySet<number>): void {
+    this._sortComponents = componentIds;
+  }
+
+  /**
+   * Moves the entity to its place in the sorted query, if it's the part of the query
+   * @internal
+   */
+  public sortEntity(entity: Entity): void {
+    const comparator = this._comparator;
+    const index = this._indices.get(entity.id);
+    if (comparator === undefined || index === undefined) return;
+    const entities = this._entities;
+    if ((index === 0 || comparator(entities[index - 1], entity) <= 0)
+      && (index === entities.length - 1 || comparator(entity, entities[index + 1]) <= 0)) {
+      return;
+    }
+    entities.splice(index, 1);
+    const newIndex = findInsertionIndex(entities, entity, comparator);
+    entities.splice(newIndex, 0, entity);
+    this.updateIndices(Math.min(index, newIndex), Math.max(index, newIndex) + 1);
+  }
+
+  /**
+   * Sets component classes, whose changes are tracked by the query.
+   * @internal
+   */
+  public setChangeFilter(filter: QueryChangeFilter): void {
+    this._changeFilter = filter;
+  }
+
+  /**
+   * Returns a value that indicates whether any of components tracked by the query was added to the entity, marked as
+   * changed or removed from the entity after the change tick.
+   * If the query doesn't track changes of the components - it always returns `true`.
+   *
+   * @param {Entity} entity
+   * @param {number} tick Change tick
+   * @returns {boolean}
+   * @see {@link QueryBuilder.added}, {@link QueryBuilder.changed}, {@link QueryBuilder.removed}
+   */
+  public isChangedSince(entity: Entity, tick: number): boolean {
+    const filter = this._changeFilter;
+    if (filter === undefined) return true;
+    for (const componentClass of filter.added) {
+      if (entity.isAddedSince(componentClass, tick)) return true;
+    }
+    for (const componentClass of filter.changed) {
+      if (entity.isChangedSince(componentClass, tick)) return true;
+    }
+    for (const componentClass of filter.removed) {
+      if (entity.isRemovedSince(componentClass, tick)) return true;
+    }
+    return false;
   }
 
   /**
    * @internal
    */
   public validateEntity(entity: Entity): void {
-    const index = this.entities.indexOf(entity);
     const isMatch = this._predicate(entity);
-    if (index !== -1 && !isMatch) {
+    if (this.has(entity) && !isMatch) {
       this.entityRemoved(entity);
     } else {
       this.entityAdded(entity);
@@ -156,13 +468,8 @@ export class Query {
    * @internal
    */
   public entityAdded = (entity: Entity) => {
-    const index = this._entities.indexOf(entity);
-    if (index === -1 && this._predicate(entity)) {
-      this._entities.push(entity);
-      if (this.onEntityAdded.hasHandlers) {
-        entity.takeSnapshot(this._snapshot);
-        this.onEntityAdded.emit(this._snapshot);
-      }
+    if (!this.has(entity) && this._predicate(entity)) {
+      this.addMatchedEntity(entity);
     }
   };
 
@@ -170,39 +477,23 @@ export class Query {
    * @internal
    */
   public entityRemoved = (entity: Entity) => {
-    const index = this._entities.indexOf(entity);
-    if (index !== -1) {
-      this._entities.splice(index, 1);
-      if (this.onEntityRemoved.hasHandlers) {
-        entity.takeSnapshot(this._snapshot);
-        this.onEntityRemoved.emit(this._snapshot);
-      }
-    }
+    this.removeMatchedEntity(entity);
   };
 
   /**
    * @internal
    */
   public entityComponentAdded = <T>(entity: Entity, componentOrTag: NonNullable<T>, componentClass?: Class<NonNullable<T>>) => {
-    const hasAddedHandlers = this.onEntityAdded.hasHandlers;
-    const hasRemovedHandlers = this.onEntityRemoved.hasHandlers;
-
     this.updateHelper(entity, componentOrTag, componentClass);
 
-    const index = this._entities.indexOf(entity);
+    const isInQuery = this.has(entity);
     const isMatch = this._predicate(this._helper);
-    if (index === -1 && isMatch) {
-      this._entities.push(entity);
-      if (hasAddedHandlers) {
-        entity.takeSnapshot(this._snapshot, componentOrTag, componentClass);
-        this.onEntityAdded.emit(this._snapshot);
-      }
-    } else if (index !== -1 && !isMatch) {
-      this._entities.splice(index, 1);
-      if (hasRemovedHandlers) {
-        entity.takeSnapshot(this._snapshot, componentOrTag, componentClass);
-        this.onEntityRemoved.emit(this._snapshot);
-      }
+    if (!isInQuery && isMatch) {
+      this.addMatchedEntity(entity, componentOrTag, componentClass);
+    } else if (isInQuery && !isMatch) {
+      this.removeMatchedEntity(entity, componentOrTag, componentClass);
+    } else if (isInQuery && this.isOptionalComponent(componentOrTag, componentClass)) {
+      this.renotifyEntity(entity, componentOrTag, componentClass);
     }
   };
 
@@ -210,39 +501,114 @@ export class Query {
    * @internal
    */
   public entityComponentRemoved = <T>(entity: Entity, component: NonNullable<T>, componentClass?: Class<NonNullable<T>>) => {
-    const hasAddedHandlers = this.onEntityAdded.hasHandlers;
-    const hasRemovedHandlers = this.onEntityRemoved.hasHandlers;
-
     this.updateHelper(entity, component, componentClass);
 
-    const index = this._entities.indexOf(entity);
-    if (index !== -1 && this._predicate(this._helper) && !this._predicate(entity)) {
-      this._entities.splice(index, 1);
-      if (hasRemovedHandlers) {
-        entity.takeSnapshot(this._snapshot, component, componentClass);
-        this.onEntityRemoved.emit(this._snapshot);
-      }
-    } else if (index === -1 && this._predicate(entity) && !this._predicate(this._helper)) {
+    const isInQuery = this.has(entity);
+    if (isInQuery && this._predicate(this._helper) && !this._predicate(entity)) {
+      this.removeMatchedEntity(entity, component, componentClass);
+    } else if (!isInQuery && this._predicate(entity) && !this._predicate(this._helper)) {
+      this.addMatchedEntity(entity, component, componentClass);
+    } else if (isInQuery && this.isOptionalComponent(component, componentClass) && this._predicate(entity)) {
+      this.renotifyEntity(entity, component, componentClass);
+    }
+  };
+
+  /**
+   * Adds an entity, that is known to match the query and is not the part of the query yet.
+   * @internal
+   */
+  public addMatchedEntity<T>(entity: Entity, changedComponentOrTag?: T, componentClass?: Class<T>): void {
+    if (this._comparator !== undefined) {
+      const index = findInsertionIndex(this._entities, entity, this._comparator);
+      this._entities.splice(index, 0, entity);
+      this.updateIndices(index, this._entities.length);
+    } else {
+      this._indices.set(entity.id, this._entities.length);
       this._entities.push(entity);
-      if (hasAddedHandlers) {
-        entity.takeSnapshot(this._snapshot, component, componentClass);
-        this.onEntityAdded.emit(this._snapshot);
+    }
+    if (this.onEntityAdded.hasHandlers) {
+      entity.takeSnapshot(this._snapshot, changedComponentOrTag, componentClass);
+      this.onEntityAdded.emit(this._snapshot);
+    }
+  }
+
+  /**
+   * Removes an entity from the query, if it's the part of the query.
+   * @internal
+   */
+  public removeMatchedEntity<T>(entity: Entity, changedComponentOrTag?: T, componentClass?: Class<T>): void {
+    const index = this._indices.get(entity.id);
+    if (index === undefined) return;
+    this._indices.delete(entity.id);
+    if (this._preserveOrder || this._comparator !== undefined) {
+      this._entities.splice(index, 1);
+      this.updateIndices(index, this._entities.length);
+    } else {
+      const last = this._entities.pop()!;
+      if (index < this._entities.length) {
+        this._entities[index] = last;
+        this._indices.set(last.id, index);
       }
     }
-  };
+    if (this.onEntityRemoved.hasHandlers) {
+      entity.takeSnapshot(this._snapshot, changedComponentOrTag, componentClass);
+      this.onEntityRemoved.emit(this._snapshot);
+    }
+  }
+
+  /**
+   * Notifies about removal of the entity from the query and its addition back, without changing the list of entities.
+   * It's used when optional component is added to or removed from the entity.
+   * @internal
+   */
+  public renotifyEntity<T>(entity: Entity, changedComponent: T, componentClass?: Class<T>): void {
+    if (this.onEntityRemoved.hasHandlers) {
+      entity.takeSnapshot(this._snapshot, changedComponent, componentClass);
+      this.onEntityRemoved.emit(this._snapshot);
+    }
+    if (this.onEntityAdded.hasHandlers) {
+      entity.takeSnapshot(this._snapshot, changedComponent, componentClass);
+      this.onEntityAdded.emit(this._snapshot);
+    }
+  }
+
+  private isOptionalComponent<T>(componentOrTag: NonNullable<T>, componentClass?: Class<NonNullable<T>>): boolean {
+    return this._optionalComponents.size > 0 && !isTag(componentOrTag)
+      && this._optionalComponents.has(getComponentId(getComponentClass(componentOrTag, componentClass))!);
+  }
+
+  private updateIndices(start: number, end: number) {
+    for (let i = start; i < end; i++) {
+      this._indices.set(this._entities[i].id, i);
+    }
+  }
 
   private updateHelper<T>(entity: Entity, component: NonNullable<T>, resolveClass?: Class<NonNullable<T>>) {
     this._helper.clear();
-    this._helper.copyFrom(entity);
+    this._helper.copyFrom(entity, this._dependencies?.relations ?? true);
     if (!isLinkedComponent(component)) {
-      this._helper.add(component);
+      this._helper.add(component, resolveClass);
     } else if (!this._helper.has(getComponentClass(component!, resolveClass))) {
-      this._helper.append(component);
+      this._helper.append(component, resolveClass);
     }
   }
 }
 
-function hasAll(entity: Entity, components: Set<number>, tags: Set<Tag>): boolean {
+function findInsertionIndex(entities: ReadonlyArray<Entity>, entity: Entity, comparator: QueryComparator): number {
+  let low = 0;
+  let high = entities.length;
+  while (low < high) {
+    const middle = (low + high) >>> 1;
+    if (comparator(entities[middle], entity) <= 0) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+  return low;
+}
+
+function hasAll(entity: QueryMatchTarget, components: ReadonlySet<number>, tags: ReadonlySet<Tag>): boolean {
   if (components.size > 0) {
     for (const componentId of components) {
       if (entity.components[componentId] === undefined) {
@@ -260,44 +626,384 @@ function hasAll(entity: Entity, components: Set<number>, tags: Set<Tag>): boolea
   return true;
 }
 
+function hasAny(entity: QueryMatchTarget, components: ReadonlySet<number>, tags: ReadonlySet<Tag>): boolean {
+  if (components.size > 0) {
+    for (const componentId of components) {
+      if (entity.components[componentId] !== undefined) {
+        return true;
+      }
+    }
+  }
+  if (tags.size > 0) {
+    for (const tag of tags) {
+      if (entity.tags.has(tag)) {
+        return true;
+      }
+    }
+  }
+  return false;
+}
+
+function addComponentsOrTags(target: QueryClause, componentsOrTags: Array<any>): void {
+  for (const componentOrTag of componentsOrTags) {
+    if (isTag(componentOrTag)) {
+      if (!target.tags.has(componentOrTag)) {
+        target.tags.add(componentOrTag);
+      }
+    } else {
+      const componentId = getComponentId(componentOrTag, true)!;
+      if (!target.components.has(componentId)) {
+        target.components.add(componentId);
+      }
+    }
+  }
+}
+
+function addComponentClasses(target: Array<Class<unknown>>, componentClasses: Array<Class<unknown>>): void {
+  for (const componentClass of componentClasses) {
+    if (target.indexOf(componentClass) === -1) {
+      target.push(componentClass);
+    }
+  }
+}
+
+function copyClause(clause: ReadonlyQueryClause): ReadonlyQueryClause {
+  return {components: new Set(clause.components), tags: new Set(clause.tags)};
+}
+
+function isEmptyClause(clause: ReadonlyQueryClause): boolean {
+  return clause.components.size === 0 && clause.tags.size === 0;
+}
+
 /**
- * Query builder, helps to create queries
+ * Set of component identifiers and tags used by one of the {@link QueryBuilder} clauses
+ */
+export interface ReadonlyQueryClause {
+  readonly components: ReadonlySet<number>;
+  readonly tags: ReadonlySet<Tag>;
+}
+
+interface QueryClause extends ReadonlyQueryClause {
+  readonly components: Set<number>;
+  readonly tags: Set<Tag>;
+}
+
+interface RelationClause {
+  readonly relation: Class<unknown>;
+  readonly entity?: Entity;
+}
+
+/**
+ * Query builder, helps to create queries.
+ * Types of the components passed to {@link contains}, {@link added} and {@link changed} are inferred, so the built
+ * query provides typed tuples of the entity and its components.
  * @example
  * const query = new QueryBuilder()
  *  .contains(Position)
  *  .contains(Acceleration)
  *  .contains(TorqueForce)
+ *  .excludes(Frozen)
+ *  .anyOf(PLAYER, ENEMY)
  *  .build();
  */
-export class QueryBuilder {
+export class QueryBuilder<C extends unknown[] = unknown[]> {
   private readonly _components: Set<number> = new Set();
   private readonly _tags: Set<Tag> = new Set();
+  private readonly _excluded: QueryClause = {components: new Set(), tags: new Set()};
+  private readonly _anyOf: QueryClause = {components: new Set(), tags: new Set()};
+  private readonly _added: Array<Class<unknown>> = [];
+  private readonly _changed: Array<Class<unknown>> = [];
+  private readonly _removed: Array<Class<unknown>> = [];
+  private _parent?: Entity;
+  private readonly _parentClause: QueryClause = {components: new Set(), tags: new Set()};
+  private readonly _relations: RelationClause[] = [];
+  private readonly _targetOf: RelationClause[] = [];
+  private _sortBy?: QueryComparator;
+  private readonly _sortComponents: Set<number> = new Set();
+  private readonly _componentClasses: Array<Class<unknown>> = [];
+  private readonly _optional: Set<number> = new Set();
 
   /**
-   * Specifies components that must be added to entity to be matched
+   * Specifies components that must be added to entity to be matched.
+   * Components are added to the tuples of the query in the same order, tags are skipped.
    * @param componentsOrTags
+   * @see {@link Query.getTuple}
    */
-  public contains(...componentsOrTags: Array<any>): QueryBuilder {
+  public contains<T extends Array<any>>(
+    ...componentsOrTags: T
+  ): QueryBuilder<AppendQueryComponents<C, QueryComponents<T>>> {
+    addComponentsOrTags({components: this._components, tags: this._tags}, componentsOrTags);
     for (const componentOrTag of componentsOrTags) {
-      if (isTag(componentOrTag)) {
-        if (!this._tags.has(componentOrTag)) {
-          this._tags.add(componentOrTag);
-        }
-      } else {
-        const componentId = getComponentId(componentOrTag, true)!;
-        if (!this._components.has(componentId)) {
-          this._components.add(componentId);
-        }
+      if (!isTag(componentOrTag)) {
+        this._componentClasses.push(componentOrTag);
       }
     }
+    return this as unknown as QueryBuilder<AppendQueryComponents<C, QueryComponents<T>>>;
+  }
+
+  /**
+   * Specifies components and tags that mustn't be added to entity to be matched
+   * @param componentsOrTags
+   * @example
+   * ```ts
+   * const movableQuery = new QueryBuilder()
+   *   .contains(Position)
+   *   .excludes(Frozen, STATIC)
+   *   .build();
+   * ```
+   */
+  public excludes(...componentsOrTags: Array<any>): QueryBuilder<C> {
+    addComponentsOrTags(this._excluded, componentsOrTags);
+    return this;
+  }
+
+  /**
+   * Specifies components and tags, at least one of which must be added to entity to be matched.
+   * Several calls extend the same list of alternatives.
+   * @param componentsOrTags
+   * @example
+   * ```ts
+   * const unitsQuery = new QueryBuilder()
+   *   .contains(Position)
+   *   .anyOf(PLAYER, ENEMY)
+   *   .build();
+   * ```
+   */
+  public anyOf(...componentsOrTags: Array<any>): QueryBuilder<C> {
+    addComponentsOrTags(this._anyOf, componentsOrTags);
+    return this;
+  }
+
+  /**
+   * Specifies components that must be added to entity to be matched, and makes query to track their addition.
+   * Entities iterated by {@link IterativeSystem} will be filtered by those, that got any of tracked components added,
+   * changed or removed since the last system update.
+   * @param componentClasses
+   * @see {@link Query.isChangedSince}
+   * @example
+   * ```ts
+   * const spawnedQuery = new QueryBuilder()
+   *   .added(Position)
+   *   .build();
+   * ```
+   */
+  public added<T extends Array<Class<unknown>>>(
+    ...componentClasses: T
+  ): QueryBuilder<AppendQueryComponents<C, QueryComponents<T>>> {
+    addComponentClasses(this._added, componentClasses);
+    return this.contains(...componentClasses);
+  }
+
+  /**
+   * Specifies components that must be added to entity to be matched, and makes query to track their changes.
+   * Component is considered changed if it was added to the entity or marked as changed with {@link Entity.markChanged}.
+   * Entities iterated by {@link IterativeSystem} will be filtered by those, that got any of tracked components added,
+   * changed or removed since the last system update.
+   * @param componentClasses
+   * @see {@link Query.isChangedSince}
+   * @example
+   * ```ts
+   * const movedQuery = new QueryBuilder()
+   *   .contains(View)
+   *   .changed(Position)
+   *   .build();
+   * ```
+   */
+  public changed<T extends Array<Class<unknown>>>(
+    ...componentClasses: T
+  ): QueryBuilder<AppendQueryComponents<C, QueryComponents<T>>> {
+    addComponentClasses(this._changed, componentClasses);
+    return this.contains(...componentClasses);
+  }
+
+  /**
+   * Specifies components, that don't affect matching of the entity, but are added to the tuples of the query.
+   * They are `undefined` in the tuple if entity doesn't have them. When optional component is added to or removed
+   * from the entity of the query, the query notifies that the entity is removed and added back, so
+   * {@link ReactionSystem} handlers get the entity with its new set of components.
+   * @param componentClasses
+   * @see {@link Query.getTuple}
+   * @example
+   * ```ts
+   * const movingQuery = new QueryBuilder()
+   *   .contains(Position, Velocity)
+   *   .optional(Friction)
+   *   .build();
+   * for (const [entity, position, velocity, friction] of movingQuery.tuples()) {
+   *   const factor = friction !== undefined ? 1 - friction.value : 1;
+   *   ...
+   * }
+   * ```
+   */
+  public optional<T extends Array<Class<unknown>>>(
+    ...componentClasses: T
+  ): QueryBuilder<AppendQueryComponents<C, OptionalQueryComponents<T>>> {
+    for (const componentClass of componentClasses) {
+      this._optional.add(getComponentId(componentClass, true)!);
+      this._componentClasses.push(componentClass);
+    }
+    return this as unknown as QueryBuilder<AppendQueryComponents<C, OptionalQueryComponents<T>>>;
+  }
+
+  /**
+   * Makes query to track removal of specified components. It doesn't affect matching of the entities.
+   * Entities iterated by {@link IterativeSystem} will be filtered by those, that got any of tracked components added,
+   * changed or removed since the last system update.
+   * @param componentClasses
+   * @see {@link Query.isChangedSince}
+   * @example
+   * ```ts
+   * const unselectedQuery = new QueryBuilder()
+   *   .contains(View)
+   *   .removed(Selection)
+   *   .build();
+   * ```
+   */
+  public removed(...componentClasses: Array<Class<unknown>>): QueryBuilder<C> {
+    addComponentClasses(this._removed, componentClasses);
+    return this;
+  }
+
+  /**
+   * Specifies the parent, that entity must be the child of to be matched
+   * @param parent Parent entity
+   * @see {@link Entity.setParent}
+   * @example
+   * ```ts
+   * const inventoryQuery = new QueryBuilder()
+   *   .contains(Item)
+   *   .childOf(hero)
+   *   .build();
+   * ```
+   */
+  public childOf(parent: Entity): QueryBuilder<C> {
+    this._parent = parent;
+    return this;
+  }
+
+  /**
+   * Specifies components and tags that must be added to the parent of entity to be matched
+   * @param componentsOrTags
+   * @see {@link Entity.setParent}
+   * @example
+   * ```ts
+   * const attachedWeaponsQuery = new QueryBuilder()
+   *   .contains(Weapon)
+   *   .withParent(Hero)
+   *   .build();
+   * ```
+   */
+  public withParent(...componentsOrTags: Array<any>): QueryBuilder<C> {
+    addComponentsOrTags(this._parentClause, componentsOrTags);
+    return this;
+  }
+
+  /**
+   * Specifies the relation, that entity must have to the target to be matched.
+   * If target is not passed - entity must have the relation to any entity.
+   * @param relation Relation class
+   * @param target Target entity
+   * @see {@link Entity.addRelation}
+   * @example
+   * ```ts
+   * const aimingQuery = new QueryBuilder()
+   *   .contains(Turret)
+   *   .withRelation(Targets)
+   *   .build();
+   * ```
+   */
+  public withRelation(relation: Class<unknown>, target?: Entity): QueryBuilder<C> {
+    this._relations.push({relation, entity: target});
+    return this;
+  }
+
+  /**
+   * Specifies the relation, that the source must have to entity to be matched.
+   * If source is not passed - any entity must have the relation to the entity.
+   * @param relation Relation class
+   * @param source Source entity
+   * @see {@link Entity.addRelation}
+   * @example
+   * ```ts
+   * const ownersQuery = new QueryBuilder()
+   *   .contains(Player)
+   *   .targetOf(OwnedBy)
+   *   .build();
+   * ```
+   */
+  public targetOf(relation: Class<unknown>, source?: Entity): QueryBuilder<C> {
+    this._targetOf.push({relation, entity: source});
+    return this;
+  }
+
+  /**
+   * Specifies the comparator, that entities of the query are kept sorted by
+   * @param comparator Comparator of entities
+   * @param componentClasses Components, which changes with {@link Entity.markChanged} make entity to take its new place
+   *  in the query
+   * @see {@link QueryOptions.sortBy}
+   * @example
+   * ```ts
+   * const spritesQuery = new QueryBuilder()
+   *   .contains(Sprite)
+   *   .sortBy((a, b) => a.get(Sprite)!.zIndex - b.get(Sprite)!.zIndex, Sprite)
+   *   .build();
+   * ```
+   */
+  public sortBy(comparator: QueryComparator, ...componentClasses: Array<Class<unknown>>): QueryBuilder<C> {
+    this._sortBy = comparator;
+    for (const componentClass of componentClasses) {
+      this._sortComponents.add(getComponentId(componentClass, true)!);
+    }
     return this;
   }
 
   /**
    * Build query
+   * @param options Query options
    */
-  public build(): Query {
-    return new Query((entity: Entity) => hasAll(entity, this._components, this._tags));
+  public build(options: QueryOptions = {}): Query<C> {
+    const required = copyClause({components: this._components, tags: this._tags});
+    const excluded = copyClause(this._excluded);
+    const anyOf = copyClause(this._anyOf);
+    const matcher = (target: QueryMatchTarget) => {
+      return hasAll(target, required.components, required.tags)
+        && (isEmptyClause(excluded) || !hasAny(target, excluded.components, excluded.tags))
+        && (isEmptyClause(anyOf) || hasAny(target, anyOf.components, anyOf.tags));
+    };
+    const parent = this._parent;
+    const parentClause = copyClause(this._parentClause);
+    const hierarchy = parent !== undefined || !isEmptyClause(parentClause);
+    const relations = this._relations.concat();
+    const targetOf = this._targetOf.concat();
+    const hasRelations = relations.length > 0 || targetOf.length > 0;
+    const predicate = !hierarchy && !hasRelations ? matcher : (entity: Entity) => {
+      return matcher(entity)
+        && (parent === undefined || entity.parent === parent)
+        && (isEmptyClause(parentClause)
+          || (entity.parent !== undefined && hasAll(entity.parent, parentClause.components, parentClause.tags)))
+        && relations.every(value => entity.hasRelation(value.relation, value.entity))
+        && targetOf.every(value => entity.isTargetOf(value.relation, value.entity));
+    };
+    const query = new Query<C>(predicate, this._sortBy !== undefined ? {...options, sortBy: this._sortBy} : options);
+    query.setSortComponents(new Set(this._sortComponents));
+    query.setComponentClasses(this._componentClasses.concat());
+    query.setOptionalComponents(new Set(this._optional));
+    query.setDependencies({
+      components: new Set([...required.components, ...excluded.components, ...anyOf.components, ...this._optional]),
+      tags: new Set([...required.tags, ...excluded.tags, ...anyOf.tags]),
+      matcher: hierarchy || hasRelations ? undefined : matcher,
+      hierarchy,
+      relations: hasRelations,
+    });
+    if (this._added.length > 0 || this._changed.length > 0 || this._removed.length > 0) {
+      query.setChangeFilter({
+        added: this._added.concat(),
+        changed: this._changed.concat(),
+        removed: this._removed.concat(),
+      });
+    }
+    return query;
   }
 
   /**
@@ -313,6 +1019,20 @@ export class QueryBuilder {
   public getTags(): ReadonlySet<Tag> {
     return this._tags;
   }
+
+  /**
+   * @internal
+   */
+  public getExcluded(): ReadonlyQueryClause {
+    return this._excluded;
+  }
+
+  /**
+   * @internal
+   */
+  public getAnyOf(): ReadonlyQueryClause {
+    return this._anyOf;
+  }
 }
 
 /**
@@ -0,0 +1,296 @@
+import {isQueryBuilder, Query, QueryBuilder} from './Query';
+import {Entity, EntitySnapshot} from './Entity';
+import {getComponentId} from './ComponentId';
+import {Class} from '../utils/Class';
+import {Signal} from '../utils/Signal';
+
+/**
+ * Key extractor of the query index, that returns the key of the entity.
+ * Keys are compared with the `SameValueZero` algorithm, like keys of the `Map`.
+ */
+export type QueryIndexKey<K> = (entity: Entity) => K;
+
+const EMPTY: ReadonlyArray<Entity> = [];
+
+/**
+ * Base class of the query indices. Index groups entities of its query by the key, and keeps groups up to date while
+ * it's added to the engine with {@link Engine.addQueryIndex}.
+ * Entity takes its new key when any of the key components is added, removed or marked as changed with
+ * {@link Entity.markChanged}, or when {@link Entity.invalidate} is called.
+ * @see {@link QueryIndex}, {@link UniqueQueryIndex}
+ */
+export abstract class AbstractQueryIndex<K> {
+  /**
+   * Query, that entities of the index are taken from
+   */
+  public readonly query: Query;
+
+  private readonly _key: QueryIndexKey<K>;
+  private readonly _keyComponents: ReadonlySet<number>;
+  private _keys: Map<number, K> = new Map();
+
+  /**
+   * Initializes the index
+   * @param query Query or query builder, that entities of the index are taken from
+   * @param key Key extractor
+   * @param componentClasses Components, which changes make entity to take its new key
+   */
+  protected constructor(query: Query | QueryBuilder, key: QueryIndexKey<K>, componentClasses: Array<Class<unknown>>) {
+    this.query = isQueryBuilder(query) ? query.build() : query;
+    this._key = key;
+    this._keyComponents = new Set(componentClasses.map(value => getComponentId(value, true)!));
+  }
+
+  /**
+   * Identifiers of components, which changes make entity to take its new key
+   * @internal
+   */
+  public get keyComponents(): ReadonlySet<number> {
+    return this._keyComponents;
+  }
+
+  /**
+   * Returns keys of the index
+   */
+  public abstract keys(): IterableIterator<K>;
+
+  /**
+   * Returns a value that indicates whether any entity has the key
+   * @param key Key
+   */
+  public abstract has(key: K): boolean;
+
+  /**
+   * Returns a key of the entity, or `undefined` if the entity is not the part of the index
+   * @param entity Entity
+   */
+  public getKey(entity: Entity): K | undefined {
+    return this._keys.get(entity.id);
+  }
+
+  /**
+   * Starts to follow changes of the query and indexes its entities
+   * @internal
+   */
+  public connect(): void {
+    this.rebuild();
+    this.query.onEntityAdded.connect(this.onEntityAdded);
+    this.query.onEntityRemoved.connect(this.onEntityRemoved);
+  }
+
+  /**
+   * Stops following changes of the query and clears the index
+   * @internal
+   */
+  public disconnect(): void {
+    this.query.onEntityAdded.disconnect(this.onEntityAdded);
+    this.query.onEntityRemoved.disconnect(this.onEntityRemoved);
+    this.clear();
+  }
+
+  /**
+   * Indexes entities of the query from scratch
+   * @internal
+   */
+  public rebuild(): void {
+    this.clear();
+    for (const entity of this.query.entities) {
+      this.addEntity(entity);
+    }
+  }
+
+  /**
+   * Moves the entity to its new key, if it's the part of the index
+   * @internal
+   */
+  public updateEntity(entity: Entity): void {
+    if (!this._keys.has(entity.id)) return;
+    const previousKey = this._keys.get(entity.id)!;
+    const key = this._key(entity);
+    if (isSameKey(previousKey, key)) return;
+    this.insert(key, entity);
+    this.delete(previousKey, entity);
+    this._keys.set(entity.id, key);
+  }
+
+  /**
+   * Adds the entity to the group of the key
+   */
+  protected abstract insert(key: K, entity: Entity): void;
+
+  /**
+   * Removes the entity from the group of the key
+   */
+  protected abstract delete(key: K, entity: Entity): void;
+
+  /**
+   * Removes all groups of the index
+   */
+  protected abstract clearGroups(): void;
+
+  private clear(): void {
+    this._keys.clear();
+    this.clearGroups();
+  }
+
+  private addEntity(entity: Entity): void {
+    const key = this._key(entity);
+    this.insert(key, entity);
+    this._keys.set(entity.id, key);
+  }
+
+  private onEntityAdded = ({current}: EntitySnapshot) => {
+    this.addEntity(current);
+  };
+
+  private onEntityRemoved = ({current}: EntitySnapshot) => {
+    if (!this._keys.has(current.id)) return;
+    this.delete(this._keys.get(current.id)!, current);
+    this._keys.delete(current.id);
+  };
+}
+
+/**
+ * Query index, that groups entities of the query by the key
+ *
+ * @example
+ * ```ts
+ * const unitsByTeam = new QueryIndex(
+ *   new QueryBuilder().contains(Unit, Team),
+ *   (entity) => entity.get(Team)!.id,
+ *   Team,
+ * );
+ * engine.addQueryIndex(unitsByTeam);
+ * const enemies = unitsByTeam.get(3);
+ * ```
+ */
+export class QueryIndex<K> extends AbstractQueryIndex<K> {
+  private _groups: Map<K, Entity[]> = new Map();
+
+  /**
+   * Initializes the index
+   * @param query Query or query builder, that entities of the index are taken from
+   * @param key Key extractor
+   * @param componentClasses Components, which changes make entity to take its new key
+   */
+  public constructor(query: Query | QueryBuilder, key: QueryIndexKey<K>, ...componentClasses: Array<Class<unknown>>) {
+    super(query, key, componentClasses);
+  }
+
+  /**
+   * Returns entities with the key in the order they got the key
+   * @param key Key
+   */
+  public get(key: K): ReadonlyArray<Entity> {
+    return this._groups.get(key) ?? EMPTY;
+  }
+
+  public keys(): IterableIterator<K> {
+    return this._groups.keys();
+  }
+
+  public has(key: K): boolean {
+    return this._groups.has(key);
+  }
+
+  protected insert(key: K, entity: Entity): void {
+    const group = this._groups.get(key);
+    if (group === undefined) {
+      this._groups.set(key, [entity]);
+    } else {
+      group.push(entity);
+    }
+  }
+
+  protected delete(key: K, entity: Entity): void {
+    const group = this._groups.get(key)!;
+    group.splice(group.indexOf(entity), 1);
+    if (group.length === 0) {
+      this._groups.delete(key);
+    }
+  }
+
+  protected clearGroups(): void {
+    this._groups.clear();
+  }
+}
+
+/**
+ * Query index, that maps every key to the only entity of the query.
+ * When entity takes the key, which already belongs to another entity, the key stays with its first owner and
+ * {@link onKeyConflict} is dispatched. The entity takes the key when the owner leaves it.
+ *
+ * @example
+ * ```ts
+ * const tiles = new UniqueQueryIndex(
+ *   new QueryBuilder().contains(Tile, Position),
+ *   (entity) => `${entity.get(Position)!.x},${entity.get(Position)!.y}`,
+ *   Position,
+ * );
+ * engine.addQueryIndex(tiles);
+ * const tile = tiles.get('3,4');
+ * ```
+ */
+export class UniqueQueryIndex<K> extends AbstractQueryIndex<K> {
+  /**
+   * Signal dispatches when entity takes the key, which already belongs to another entity
+   */
+  public onKeyConflict: Signal<(key: K, owner: Entity, entity: Entity) => void> = new Signal();
+
+  private _entities: Map<K, Entity[]> = new Map();
+
+  /**
+   * Initializes the index
+   * @param query Query or query builder, that entities of the index are taken from
+   * @param key Key extractor
+   * @param componentClasses Components, which changes make entity to take its new key
+   */
+  public constructor(query: Query | QueryBuilder, key: QueryIndexKey<K>, ...componentClasses: Array<Class<unknown>>) {
+    super(query, key, componentClasses);
+  }
+
+  /**
+   * Returns the entity with the key, or `undefined` if there is no such entity
+   * @param key Key
+   */
+  public get(key: K): Entity | undefined {
+    const entities = this._entities.get(key);
+    return entities !== undefined ? entities[0] : undefined;
+  }
+
+  public keys(): IterableIterator<K> {
+    return this._entities.keys();
+  }
+
+  public has(key: K): boolean {
+    return this._entities.has(key);
+  }
+
+  protected insert(key: K, entity: Entity): void {
+    const entities = this._entities.get(key);
+    if (entities === undefined) {
+      this._entities.set(key, [entity]);
+      return;
+    }
+    entities.push(entity);
+    if (this.onKeyConflict.hasHandlers) {
+      this.onKeyConflict.emit(key, entities[0], entity);
+    }
+  }
+
+  protected delete(key: K, entity: Entity): void {
+    const entities = this._entities.get(key)!;
+    entities.splice(entities.indexOf(entity), 1);
+    if (entities.length === 0) {
+      this._entities.delete(key);
+    }
+  }
+
+  protected clearGroups(): void {
+    this._entities.clear();
+  }
+}
+
+function isSameKey(a: unknown, b: unknown): boolean {
+  return a === b || (a !== a && b !== b);
+}
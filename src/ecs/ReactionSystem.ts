@@ -30,6 +30,14 @@ import {System} from './System';
  */
 export abstract class ReactionSystem extends System {
   protected readonly query: Query;
+  /**
+   * Value indicating whether snapshots of entities added to and removed from the query are buffered while the system
+   * is disabled. Buffered snapshots are passed to {@link entityAdded} and {@link entityRemoved} when the system is
+   * enabled. If it's `false` - such changes are missed by disabled system.
+   */
+  protected readonly bufferWhileDisabled: boolean = false;
+
+  private _buffered: Array<[EntitySnapshot, boolean]> = [];
 
   protected constructor(query: Query | QueryBuilder | QueryPredicate) {
     super();
@@ -49,15 +57,28 @@ export abstract class ReactionSystem extends System {
   public onAddedToEngine() {
     this.engine.addQuery(this.query);
     this.prepare();
-    this.query.onEntityAdded.connect(this.entityAdded);
-    this.query.onEntityRemoved.connect(this.entityRemoved);
+    this.query.onEntityAdded.connect(this.onEntityAdded);
+    this.query.onEntityRemoved.connect(this.onEntityRemoved);
   }
 
   public onRemovedFromEngine() {
     this.engine.removeQuery(this.query);
-    this.query.onEntityAdded.disconnect(this.entityAdded);
-    this.query.onEntityRemoved.disconnect(this.entityRemoved);
+    this.query.onEntityAdded.disconnect(this.onEntityAdded);
+    this.query.onEntityRemoved.disconnect(this.onEntityRemoved);
     this.query.clear();
+    this._buffered.length = 0;
+  }
+
+  public onEnabled() {
+    const buffered = this._buffered;
+    this._buffered = [];
+    for (const [snapshot, added] of buffered) {
+      if (added) {
+        this.entityAdded(snapshot);
+      } else {
+        this.entityRemoved(snapshot);
+      }
+    }
   }
 
   protected prepare() {}
@@ -85,4 +106,20 @@ export abstract class ReactionSystem extends System {
    */
   protected entityRemoved = (entity: EntitySnapshot) => {
   };
+
+  private onEntityAdded = (snapshot: EntitySnapshot) => {
+    if (this.enabled) {
+      this.entityAdded(snapshot);
+    } else if (this.bufferWhileDisabled) {
+      this._buffered.push([snapshot.clone(), true]);
+    }
+  };
+
+  private onEntityRemoved = (snapshot: EntitySnapshot) => {
+    if (this.enabled) {
+      this.entityRemoved(snapshot);
+    } else if (this.bufferWhileDisabled) {
+      this._buffered.push([snapshot.clone(), false]);
+    }
+  };
 }
@@ -0,0 +1,475 @@
+import {Engine} from './Engine';
+import {Entity} from './Entity';
+import {Tag} from './Tag';
+import {ComponentRegistry} from './ComponentRegistry';
+import {deserializeEntity, SerializedComponent, SerializedEntity, serializeComponents} from './Serialization';
+
+/**
+ * Changes of the replicated entity
+ * @see {@link ReplicationDelta}
+ */
+export interface EntityDelta {
+  /**
+   * Identifier of the entity on the server
+   */
+  id: number;
+  /**
+   * Added components. Linked components of the same type are sent together.
+   */
+  added?: SerializedComponent[];
+  /**
+   * Changed components, they replace existing components of the same type.
+   * Linked components of the same type are sent together.
+   */
+  changed?: SerializedComponent[];
+  /**
+   * Registered names of the removed components
+   */
+  removed?: string[];
+  /**
+   * Added tags
+   */
+  tagsAdded?: Tag[];
+  /**
+   * Removed tags
+   */
+  tagsRemoved?: Tag[];
+}
+
+/**
+ * Difference between the state acknowledged by the client and the current state of the server.
+ * It's JSON-compatible, so it can be sent to the client as is.
+ * @see {@link ReplicationServer.createDelta}, {@link ReplicationClient.apply}
+ */
+export interface ReplicationDelta {
+  /**
+   * Sequence number of the server state
+   */
+  sequence: number;
+  /**
+   * Sequence number of the state, which the delta is relative to. If it's not defined - delta contains the full state.
+   */
+  baseline?: number;
+  /**
+   * Created entities
+   */
+  created: SerializedEntity[];
+  /**
+   * Identifiers of the removed entities
+   */
+  removed: number[];
+  /**
+   * Changes of the existing entities
+   */
+  updated: EntityDelta[];
+}
+
+/**
+ * Identifier of the client
+ */
+export type ReplicationClientId = string | number;
+
+/**
+ * Server side of the replication. It captures the state of the engine every tick, and computes deltas for every client
+ * against the state the client acknowledged last.
+ * Components of the replicated entities are serialized with {@link ComponentRegistry}. Shared config, parents and
+ * relations are not replicated.
+ *
+ * @example
+ * ```ts
+ * const replication = new ReplicationServer(engine, registry);
+ * replication.addClient(socket.id);
+ * socket.on('ack', (sequence) => replication.acknowledge(socket.id, sequence));
+ *
+ * function tick(dt: number) {
+ *   engine.update(dt);
+ *   replication.update();
+ *   socket.send(JSON.stringify(replication.createDelta(socket.id)));
+ * }
+ * ```
+ */
+export class ReplicationServer {
+  private _sequence: number = 0;
+  private _states: Map<number, WorldState> = new Map();
+  private _clients: Map<ReplicationClientId, ClientState> = new Map();
+
+  /**
+   * Initializes replication server
+   * @param engine Replicated engine
+   * @param registry Registry of the replicated component classes
+   */
+  public constructor(
+    public readonly engine: Engine,
+    public readonly registry: ComponentRegistry,
+  ) {
+  }
+
+  /**
+   * Sequence number of the last captured state, `0` if the state was not captured yet
+   */
+  public get sequence(): number {
+    return this._sequence;
+  }
+
+  /**
+   * Adds a client. The first delta for the client contains the full state.
+   * @param clientId Identifier of the client
+   */
+  public addClient(clientId: ReplicationClientId): void {
+    if (this._clients.has(clientId)) return;
+    this._clients.set(clientId, {});
+  }
+
+  /**
+   * Removes a client
+   * @param clientId Identifier of the client
+   */
+  public removeClient(clientId: ReplicationClientId): void {
+    this._clients.delete(clientId);
+    this.releaseStates();
+  }
+
+  /**
+   * Captures the current state of the engine. Call it every tick after the engine update.
+   * @returns {number} Sequence number of the captured state
+   */
+  public update(): number {
+    this._states.set(++this._sequence, captureState(this.engine.entities, this.registry));
+    this.releaseStates();
+    return this._sequence;
+  }
+
+  /**
+   * Creates delta between the state acknowledged by the client and the last captured state.
+   * If the state was not captured yet, it will be captured.
+   *
+   * @throws Throws error if the client is not added
+   * @param clientId Identifier of the client
+   * @returns {ReplicationDelta} Delta, that should be sent to the client
+   */
+  public createDelta(clientId: ReplicationClientId): ReplicationDelta {
+    if (!this._clients.has(clientId)) {
+      throw new Error(`Client "${clientId}" is not added`);
+    }
+    if (this._sequence === 0) {
+      this.update();
+    }
+    const client = this._clients.get(clientId)!;
+    if (client.unacknowledged === undefined) {
+      client.unacknowledged = this._sequence;
+    }
+    const baseline = client.acknowledged;
+    const base = baseline !== undefined ? this._states.get(baseline)! : new Map();
+    const delta = diffStates(base, this._states.get(this._sequence)!, this._sequence);
+    if (baseline !== undefined) {
+      delta.baseline = baseline;
+    }
+    return delta;
+  }
+
+  /**
+   * Acknowledges that the client applied the delta with specified sequence number.
+   * Next deltas for the client will be computed against this state.
+   * Acknowledgements may arrive several ticks late, outdated ones are ignored.
+   *
+   * @param clientId Identifier of the client
+   * @param {number} sequence Sequence number of the applied delta
+   * @see {@link ReplicationClient.sequence}
+   */
+  public acknowledge(clientId: ReplicationClientId, sequence: number): void {
+    const client = this._clients.get(clientId);
+    if (client === undefined || !this._states.has(sequence)) return;
+    if (client.acknowledged !== undefined && client.acknowledged >= sequence) return;
+    client.acknowledged = sequence;
+    client.unacknowledged = undefined;
+    this.releaseStates();
+  }
+
+  private releaseStates(): void {
+    // States sent to the client after the acknowledged one may be acknowledged later, so they are kept as well
+    let minSequence = this._sequence;
+    for (const client of this._clients.values()) {
+      const sequence = client.acknowledged ?? client.unacknowledged ?? this._sequence;
+      if (sequence < minSequence) {
+        minSequence = sequence;
+      }
+    }
+    for (const sequence of Array.from(this._states.keys())) {
+      if (sequence < minSequence) {
+        this._states.delete(sequence);
+      }
+    }
+  }
+}
+
+/**
+ * Client side of the replication. It applies deltas created by {@link ReplicationServer} to the client engine.
+ * Replicated entities get client identifiers, so they don't collide with client-local entities.
+ *
+ * @example
+ * ```ts
+ * const replication = new ReplicationClient(engine, registry);
+ * socket.on('message', (data) => {
+ *   if (replication.apply(JSON.parse(data))) {
+ *     socket.emit('ack', replication.sequence);
+ *   }
+ * });
+ * ```
+ */
+export class ReplicationClient {
+  private _sequence?: number;
+  private _states: Map<number, WorldState> = new Map();
+  private _entities: Map<number, Entity> = new Map();
+  private _serverIds: Map<number, number> = new Map();
+
+  /**
+   * Initializes replication client
+   * @param engine Client engine
+   * @param registry Registry of the replicated component classes
+   */
+  public constructor(
+    public readonly engine: Engine,
+    public readonly registry: ComponentRegistry,
+  ) {
+  }
+
+  /**
+   * Sequence number of the last applied delta, that should be acknowledged to the server
+   */
+  public get sequence(): number | undefined {
+    return this._sequence;
+  }
+
+  /**
+   * Applies delta to the client engine.
+   * Delta is ignored, if it's outdated or if its baseline state is not known to the client.
+   *
+   * @param {ReplicationDelta} delta Delta created by {@link ReplicationServer.createDelta}
+   * @returns {boolean} `true` if delta was applied
+   */
+  public apply(delta: ReplicationDelta): boolean {
+    if (this._sequence !== undefined && delta.sequence <= this._sequence) return false;
+    const base = delta.baseline !== undefined ? this._states.get(delta.baseline) : new Map();
+    if (base === undefined) return false;
+    const state = applyDelta(base, delta);
+    const current = this._sequence !== undefined ? this._states.get(this._sequence)! : new Map();
+    this.applyToEngine(diffStates(current, state, delta.sequence));
+    this._states.set(delta.sequence, state);
+    this._sequence = delta.sequence;
+    // Server may still receive acknowledgements of the older states, until it sends delta against one of them
+    if (delta.baseline !== undefined) {
+      for (const sequence of Array.from(this._states.keys())) {
+        if (sequence < delta.baseline) {
+          this._states.delete(sequence);
+        }
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Returns client entity by its identifier on the server
+   * @param {number} serverId Identifier of the entity on the server
+   */
+  public getEntity(serverId: number): Entity | undefined {
+    return this._entities.get(serverId);
+  }
+
+  /**
+   * Returns identifier of the replicated entity on the server, or `undefined` if it's a client-local entity
+   * @param {Entity} entity Client entity
+   */
+  public getServerId(entity: Entity): number | undefined {
+    return this._serverIds.get(entity.id);
+  }
+
+  private applyToEngine(delta: ReplicationDelta): void {
+    for (const id of delta.removed) {
+      const entity = this._entities.get(id);
+      if (entity === undefined) continue;
+      this._entities.delete(id);
+      this._serverIds.delete(entity.id);
+      this.engine.removeEntity(entity);
+    }
+    for (const data of delta.created) {
+      const entity = new Entity();
+      deserializeEntity(entity, data, this.registry);
+      this._entities.set(data.id, entity);
+      this._serverIds.set(entity.id, data.id);
+      this.engine.addEntity(entity);
+    }
+    for (const entityDelta of delta.updated) {
+      const entity = this._entities.get(entityDelta.id)!;
+      for (const type of entityDelta.removed ?? []) {
+        entity.remove(this.getComponentClass(type));
+      }
+      for (const tag of entityDelta.tagsRemoved ?? []) {
+        entity.remove(tag);
+      }
+      const components = (entityDelta.added ?? []).concat(entityDelta.changed ?? []);
+      for (const type of getTypes(components)) {
+        if (components.some(component => component.type === type && component.linked)) {
+          entity.remove(this.getComponentClass(type));
+        }
+      }
+      deserializeEntity(entity, {id: entityDelta.id, components, tags: entityDelta.tagsAdded ?? []}, this.registry);
+    }
+  }
+
+  private getComponentClass(type: string) {
+    const registration = this.registry.getByName(type);
+    if (registration === undefined) {
+      throw new Error(`Component name "${type}" is not registered`);
+    }
+    return registration.componentClass;
+  }
+}
+
+type WorldState = ReadonlyMap<number, EntityState>;
+
+interface ClientState {
+  /**
+   * Sequence number of the last state acknowledged by the client
+   */
+  acknowledged?: number;
+  /**
+   * Sequence number of the oldest state sent to the client since the last acknowledgement
+   */
+  unacknowledged?: number;
+}
+
+interface EntityState {
+  readonly components: ReadonlyMap<string, ComponentState>;
+  readonly tags: ReadonlySet<Tag>;
+}
+
+interface ComponentState {
+  readonly components: SerializedComponent[];
+  readonly json: string;
+}
+
+function captureState(entities: ReadonlyArray<Entity>, registry: ComponentRegistry): WorldState {
+  const state: Map<number, EntityState> = new Map();
+  for (const entity of entities) {
+    state.set(entity.id, {
+      components: groupComponents(serializeComponents(entity, registry)),
+      tags: new Set(entity.tags),
+    });
+  }
+  return state;
+}
+
+function diffStates(base: WorldState, current: WorldState, sequence: number): ReplicationDelta {
+  const delta: ReplicationDelta = {sequence, created: [], removed: [], updated: []};
+  for (const id of base.keys()) {
+    if (!current.has(id)) {
+      delta.removed.push(id);
+    }
+  }
+  for (const [id, entity] of current) {
+    const baseEntity = base.get(id);
+    if (baseEntity === undefined) {
+      delta.created.push(toSerializedEntity(id, entity));
+      continue;
+    }
+    const entityDelta = diffEntities(id, baseEntity, entity);
+    if (entityDelta !== undefined) {
+      delta.updated.push(entityDelta);
+    }
+  }
+  return delta;
+}
+
+function diffEntities(id: number, base: EntityState, current: EntityState): EntityDelta | undefined {
+  const delta: EntityDelta = {id};
+  let hasChanges = false;
+  for (const type of base.components.keys()) {
+    if (!current.components.has(type)) {
+      (delta.removed = delta.removed ?? []).push(type);
+      hasChanges = true;
+    }
+  }
+  for (const [type, component] of current.components) {
+    const baseComponent = base.components.get(type);
+    if (baseComponent === undefined) {
+      (delta.added = delta.added ?? []).push(...component.components);
+      hasChanges = true;
+    } else if (baseComponent.json !== component.json) {
+      (delta.changed = delta.changed ?? []).push(...component.components);
+      hasChanges = true;
+    }
+  }
+  for (const tag of base.tags) {
+    if (!current.tags.has(tag)) {
+      (delta.tagsRemoved = delta.tagsRemoved ?? []).push(tag);
+      hasChanges = true;
+    }
+  }
+  for (const tag of current.tags) {
+    if (!base.tags.has(tag)) {
+      (delta.tagsAdded = delta.tagsAdded ?? []).push(tag);
+      hasChanges = true;
+    }
+  }
+  return hasChanges ? delta : undefined;
+}
+
+function applyDelta(base: WorldState, delta: ReplicationDelta): WorldState {
+  const state: Map<number, EntityState> = new Map(base);
+  for (const id of delta.removed) {
+    state.delete(id);
+  }
+  for (const entity of delta.created) {
+    state.set(entity.id, {components: groupComponents(entity.components), tags: new Set(entity.tags)});
+  }
+  for (const entityDelta of delta.updated) {
+    const entity = state.get(entityDelta.id);
+    if (entity === undefined) {
+      throw new Error(`Replicated entity with id ${entityDelta.id} is not found`);
+    }
+    const components = new Map(entity.components);
+    for (const type of entityDelta.removed ?? []) {
+      components.delete(type);
+    }
+    const changed = groupComponents((entityDelta.added ?? []).concat(entityDelta.changed ?? []));
+    for (const [type, component] of changed) {
+      components.set(type, component);
+    }
+    const tags = new Set(entity.tags);
+    for (const tag of entityDelta.tagsRemoved ?? []) {
+      tags.delete(tag);
+    }
+    for (const tag of entityDelta.tagsAdded ?? []) {
+      tags.add(tag);
+    }
+    state.set(entityDelta.id, {components, tags});
+  }
+  return state;
+}
+
+function groupComponents(components: SerializedComponent[]): Map<string, ComponentState> {
+  const result: Map<string, ComponentState> = new Map();
+  for (const type of getTypes(components)) {
+    const group = components.filter(component => component.type === type);
+    result.set(type, {components: group, json: JSON.stringify(group)});
+  }
+  return result;
+}
+
+function getTypes(components: SerializedComponent[]): string[] {
+  const types: string[] = [];
+  for (const component of components) {
+    if (types.indexOf(component.type) === -1) {
+      types.push(component.type);
+    }
+  }
+  return types;
+}
+
+function toSerializedEntity(id: number, entity: EntityState): SerializedEntity {
+  const components: SerializedComponent[] = [];
+  for (const component of entity.components.values()) {
+    components.push(...component.components);
+  }
+  return {id, components, tags: Array.from(entity.tags)};
+}
@@ -0,0 +1,93 @@
+import {Engine, EngineState} from './Engine';
+
+/**
+ * Ring buffer of the engine states saved for the recent frames.
+ * When the buffer is full, saving the state of a new frame overwrites the state of the oldest one.
+ *
+ * @example
+ * ```ts
+ * const rollback = new RollbackBuffer(engine, 8);
+ *
+ * function tick() {
+ *   rollback.save(frame);
+ *   applyInputs(frame);
+ *   engine.update(FRAME_TIME);
+ *   frame++;
+ * }
+ *
+ * function onLateInput(inputFrame: number) {
+ *   rollback.restore(inputFrame);
+ *   for (let f = inputFrame; f < frame; f++) {
+ *     rollback.save(f);
+ *     applyInputs(f);
+ *     engine.update(FRAME_TIME);
+ *   }
+ * }
+ * ```
+ */
+export class RollbackBuffer {
+  private readonly _frames: Array<number | undefined>;
+  private readonly _states: Array<EngineState | undefined>;
+
+  /**
+   * Initializes the buffer
+   * @param engine Engine, which states are saved
+   * @param capacity Maximum number of saved frames
+   * @throws Throws error if the capacity is less than one
+   */
+  public constructor(
+    public readonly engine: Engine,
+    public readonly capacity: number,
+  ) {
+    if (capacity < 1) {
+      throw new Error('Capacity of the rollback buffer should be at least 1');
+    }
+    this._frames = new Array(capacity);
+    this._states = new Array(capacity);
+  }
+
+  /**
+   * Saves the current state of the engine as the state of the frame
+   * @param {number} frame Frame number
+   * @see {@link Engine.saveState}
+   */
+  public save(frame: number): void {
+    const index = this.getIndex(frame);
+    this._frames[index] = frame;
+    this._states[index] = this.engine.saveState();
+  }
+
+  /**
+   * Returns a value indicating whether the state of the frame is saved
+   * @param {number} frame Frame number
+   */
+  public has(frame: number): boolean {
+    return this._frames[this.getIndex(frame)] === frame;
+  }
+
+  /**
+   * Restores the state of the frame
+   * @param {number} frame Frame number
+   * @throws Throws error if the state of the frame is not saved or was overwritten
+   * @see {@link Engine.restoreState}
+   */
+  public restore(frame: number): void {
+    const index = this.getIndex(frame);
+    if (this._frames[index] !== frame) {
+      throw new Error(`State of the frame ${frame} is not saved`);
+    }
+    this.engine.restoreState(this._states[index]!);
+  }
+
+  /**
+   * Removes all saved states
+   */
+  public clear(): void {
+    this._frames.fill(undefined);
+    this._states.fill(undefined);
+  }
+
+  private getIndex(frame: number): number {
+    return ((frame % this.capacity) + this.capacity) % this.capacity;
+  }
+}
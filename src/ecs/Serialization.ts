@@ -0,0 +1,327 @@
+import {Entity} from './Entity';
+import {Tag} from './Tag';
+import {ComponentRegistration, ComponentRegistry} from './ComponentRegistry';
+import {ILinkedComponent, isLinkedComponent} from './LinkedComponent';
+import {Class} from '../utils/Class';
+
+/**
+ * Serialized component
+ * @see {@link Engine.serialize}
+ */
+export interface SerializedComponent {
+  /**
+   * Registered name of the class, that is used as the component key in the entity
+   */
+  type: string;
+  /**
+   * Registered name of the component class, if it differs from the {@link type}
+   */
+  class?: string;
+  /**
+   * Indicates that component is a linked component
+   */
+  linked?: boolean;
+  /**
+   * Version of the component data, `0` if it's not specified
+   * @see {@link ComponentRegistrationOptions.version}
+   */
+  version?: number;
+  /**
+   * Serialized component data
+   */
+  data: unknown;
+}
+
+/**
+ * Serialized relation
+ * @see {@link Entity.addRelation}
+ */
+export interface SerializedRelation {
+  /**
+   * Registered name of the relation class
+   */
+  type: string;
+  /**
+   * Identifier of the serialized target entity
+   */
+  target: number;
+}
+
+/**
+ * Serialized entity
+ * @see {@link Engine.serialize}
+ */
+export interface SerializedEntity {
+  /**
+   * Identifier of the entity at the moment of serialization.
+   * Deserialized entities get new identifiers, this one is used only to restore references between entities.
+   */
+  id: number;
+  /**
+   * Serialized components. Linked components are serialized in the order of the chain.
+   */
+  components: SerializedComponent[];
+  /**
+   * Tags of the entity
+   */
+  tags: Tag[];
+  /**
+   * Identifier of the serialized parent entity
+   */
+  parent?: number;
+  /**
+   * Relations of the entity to the serialized entities
+   */
+  relations?: SerializedRelation[];
+}
+
+/**
+ * Serialized engine state
+ * @see {@link Engine.serialize}
+ */
+export interface SerializedEngine {
+  /**
+   * Version of the document, `0` if it's not specified
+   * @see {@link ComponentRegistry.version}
+   */
+  version?: number;
+  /**
+   * Serialized entities of the engine
+   */
+  entities: SerializedEntity[];
+  /**
+   * Serialized shared config entity
+   */
+  sharedConfig: SerializedEntity;
+}
+
+/**
+ * @internal
+ */
+export function serializeEntity(
+  entity: Entity,
+  registry: ComponentRegistry,
+  serializedIds: ReadonlySet<number>,
+): SerializedEntity {
+  const components = serializeComponents(entity, registry);
+  const result: SerializedEntity = {id: entity.id, components, tags: Array.from(entity.tags)};
+  if (entity.parent !== undefined && serializedIds.has(entity.parent.id)) {
+    result.parent = entity.parent.id;
+  }
+  const relations = serializeRelations(entity, registry, serializedIds);
+  if (relations.length > 0) {
+    result.relations = relations;
+  }
+  return result;
+}
+
+/**
+ * Serializes components of the entity, linked components are serialized in the order of the chain.
+ * @internal
+ */
+export function serializeComponents(entity: Entity, registry: ComponentRegistry): SerializedComponent[] {
+  const components: SerializedComponent[] = [];
+  for (const key of Object.keys(entity.components)) {
+    const component = entity.components[Number(key)];
+    const registration = registry.getById(Number(key));
+    if (registration === undefined) {
+      throw new Error(`Component class "${(component as object).constructor.name}" is not registered`);
+    }
+    if (isLinkedComponent(component)) {
+      entity.iterate(registration.componentClass, (value) => {
+        components.push(serializeComponent(value, registration, registry));
+      });
+    } else {
+      components.push(serializeComponent(component, registration, registry));
+    }
+  }
+  return components;
+}
+
+/**
+ * Adds deserialized components and tags to the entity
+ * @internal
+ */
+export function deserializeEntity(entity: Entity, data: SerializedEntity, registry: ComponentRegistry): void {
+  for (const serialized of data.components) {
+    const registration = getRegistration(registry, serialized.type);
+    const componentRegistration = serialized.class !== undefined
+      ? getRegistration(registry, serialized.class)
+      : registration;
+    const component = deserializeComponent(serialized, componentRegistration) as NonNullable<unknown>;
+    if (serialized.linked) {
+      entity.append(component as ILinkedComponent, registration.componentClass as Class<ILinkedComponent>);
+    } else {
+      entity.add(component, registration.componentClass);
+    }
+  }
+  for (const tag of data.tags) {
+    entity.add(tag);
+  }
+}
+
+/**
+ * Applies document and component migrations, so the document and all its components get the current versions of the
+ * registry.
+ * @internal
+ */
+export function migrateDocument(document: SerializedEngine, registry: ComponentRegistry): SerializedEngine {
+  let version = document.version ?? 0;
+  if (version > registry.version) {
+    throw new Error(`Document version ${version} is newer than the registry version ${registry.version}`);
+  }
+  while (version < registry.version) {
+    const migration = registry.getMigration(version);
+    if (migration === undefined) {
+      throw new Error(`Migration of the document from version ${version} to ${version + 1} is not added`);
+    }
+    document = migration(document);
+    version++;
+  }
+  return {
+    version,
+    entities: document.entities.map(entity => migrateEntity(entity, registry)),
+    sharedConfig: migrateEntity(document.sharedConfig, registry),
+  };
+}
+
+/**
+ * Restores parents and relations of deserialized entities
+ * @internal
+ */
+export function deserializeReferences(
+  entities: ReadonlyMap<number, Entity>,
+  data: ReadonlyArray<SerializedEntity>,
+  registry: ComponentRegistry,
+): void {
+  for (const serialized of data) {
+    const entity = entities.get(serialized.id)!;
+    if (serialized.parent !== undefined) {
+      entity.setParent(getEntity(entities, serialized.parent));
+    }
+    if (serialized.relations === undefined) continue;
+    for (const relation of serialized.relations) {
+      entity.addRelation(getRegistration(registry, relation.type).componentClass, getEntity(entities, relation.target));
+    }
+  }
+}
+
+function serializeComponent(
+  component: unknown,
+  registration: ComponentRegistration<unknown>,
+  registry: ComponentRegistry,
+): SerializedComponent {
+  const result: SerializedComponent = {type: registration.name, data: undefined};
+  let componentRegistration = registration;
+  const componentClass = (component as object).constructor as Class<unknown>;
+  if (componentClass !== registration.componentClass) {
+    const ownRegistration = registry.getByClass(componentClass);
+    if (ownRegistration !== undefined) {
+      result.class = ownRegistration.name;
+      componentRegistration = ownRegistration;
+    }
+  }
+  if (isLinkedComponent(component)) {
+    result.linked = true;
+  }
+  if (componentRegistration.version !== 0) {
+    result.version = componentRegistration.version;
+  }
+  if (componentRegistration.serializer !== undefined) {
+    result.data = componentRegistration.serializer.serialize(component);
+  } else {
+    const data: Record<string, unknown> = Object.assign({}, component);
+    delete data.next;
+    result.data = data;
+  }
+  return result;
+}
+
+function deserializeComponent(serialized: SerializedComponent, registration: ComponentRegistration<unknown>): unknown {
+  if (registration.serializer !== undefined) {
+    return registration.serializer.deserialize(serialized.data);
+  }
+  const component = Object.create(registration.componentClass.prototype);
+  Object.assign(component, serialized.data);
+  if (serialized.linked) {
+    component.next = undefined;
+  }
+  return component;
+}
+
+function migrateEntity(entity: SerializedEntity, registry: ComponentRegistry): SerializedEntity {
+  const components: SerializedComponent[] = [];
+  for (const component of entity.components) {
+    migrateComponent(component, entity, registry, components);
+  }
+  return Object.assign({}, entity, {components});
+}
+
+function migrateComponent(
+  component: SerializedComponent,
+  entity: SerializedEntity,
+  registry: ComponentRegistry,
+  result: SerializedComponent[],
+): void {
+  const name = component.class ?? component.type;
+  const currentVersion = getRegistration(registry, name).version;
+  const version = component.version ?? 0;
+  if (version > currentVersion) {
+    throw new Error(`Component "${name}" version ${version} is newer than the registered version ${currentVersion}`);
+  }
+  if (version === currentVersion) {
+    result.push(component);
+    return;
+  }
+  const migration = registry.getComponentMigration(name, version);
+  if (migration === undefined) {
+    throw new Error(`Migration of component "${name}" from version ${version} to ${version + 1} is not added`);
+  }
+  const migrated = migration(component, entity);
+  for (const value of Array.isArray(migrated) ? migrated : [migrated]) {
+    const valueName = value.class ?? value.type;
+    if (valueName === name) {
+      migrateComponent(Object.assign({}, value, {version: version + 1}), entity, registry, result);
+    } else if (value.version === undefined) {
+      result.push(Object.assign({}, value, {version: getRegistration(registry, valueName).version}));
+    } else {
+      migrateComponent(value, entity, registry, result);
+    }
+  }
+}
+
+function serializeRelations(
+  entity: Entity,
+  registry: ComponentRegistry,
+  serializedIds: ReadonlySet<number>,
+): SerializedRelation[] {
+  const result: SerializedRelation[] = [];
+  for (const relation of entity.relations) {
+    const registration = registry.getByClass(relation);
+    if (registration === undefined) {
+      throw new Error(`Relation class "${relation.name}" is not registered`);
+    }
+    for (const target of entity.getRelationTargets(relation)) {
+      if (serializedIds.has(target.id)) {
+        result.push({type: registration.name, target: target.id});
+      }
+    }
+  }
+  return result;
+}
+
+function getRegistration(registry: ComponentRegistry, name: string): ComponentRegistration<unknown> {
+  const registration = registry.getByName(name);
+  if (registration === undefined) {
+    throw new Error(`Component name "${name}" is not registered`);
+  }
+  return registration;
+}
+
+function getEntity(entities: ReadonlyMap<number, Entity>, id: number): Entity {
+  const entity = entities.get(id);
+  if (entity === undefined) {
+    throw new Error(`Serialized entity with id ${id} is not found`);
+  }
+  return entity;
+}
@@ -0,0 +1,244 @@
+import {AbstractQueryIndex} from './QueryIndex';
+import {Query, QueryBuilder, QueryPredicate} from './Query';
+import {Entity} from './Entity';
+import {Class} from '../utils/Class';
+
+/**
+ * Position of the entity in the spatial index
+ */
+export interface SpatialPosition {
+  readonly x: number;
+  readonly y: number;
+}
+
+/**
+ * Position accessor of the spatial index, that returns the position of the entity
+ */
+export type SpatialPositionAccessor = (entity: Entity) => SpatialPosition;
+
+/**
+ * Spatial index, that puts entities of the query into cells of the uniform grid by their positions, and looks up
+ * entities in the area without checking every entity of the query.
+ * Entity moves to its new cell when any of the position components is added, removed or marked as changed with
+ * {@link Entity.markChanged}, or when {@link Entity.invalidate} is called.
+ *
+ * Found entities are ordered by their identifiers, so the results don't depend on the order entities were added or
+ * moved in, and replays give the same results.
+ *
+ * @example
+ * ```ts
+ * const units = new SpatialIndex(
+ *   new QueryBuilder().contains(Unit, Position),
+ *   (entity) => entity.get(Position)!,
+ *   64,
+ *   Position,
+ * );
+ * engine.addQueryIndex(units);
+ * const targets = units.queryRadius(x, y, aggroRadius);
+ * ```
+ */
+export class SpatialIndex extends AbstractQueryIndex<string> {
+  private readonly _position: SpatialPositionAccessor;
+  private readonly _cellSize: number;
+  private _cells: Map<string, Entity[]> = new Map();
+
+  /**
+   * Initializes the spatial index
+   * @param query Query or query builder, that entities of the index are taken from
+   * @param position Position accessor
+   * @param cellSize Size of the grid cell. It should be about the size of the usual search area.
+   * @param componentClasses Components, which changes make entity to move to its new cell
+   * @throws Throws error if the cell size is not positive
+   */
+  public constructor(
+    query: Query | QueryBuilder,
+    position: SpatialPositionAccessor,
+    cellSize: number,
+    ...componentClasses: Array<Class<unknown>>
+  ) {
+    super(query, (entity) => {
+      const {x, y} = position(entity);
+      return getCellKey(getCell(x, cellSize), getCell(y, cellSize));
+    }, componentClasses);
+    if (cellSize <= 0) {
+      throw new Error('Cell size of the spatial index should be greater than zero');
+    }
+    this._position = position;
+    this._cellSize = cellSize;
+  }
+
+  /**
+   * Gets a size of the grid cell
+   */
+  public get cellSize(): number {
+    return this._cellSize;
+  }
+
+  /**
+   * Returns keys of the non-empty cells
+   */
+  public keys(): IterableIterator<string> {
+    return this._cells.keys();
+  }
+
+  /**
+   * Returns a value that indicates whether the cell with the key is not empty
+   * @param key Key of the cell
+   */
+  public has(key: string): boolean {
+    return this._cells.has(key);
+  }
+
+  /**
+   * Returns entities within the radius from the point, including ones at the exact distance
+   * @param x X coordinate of the center
+   * @param y Y coordinate of the center
+   * @param radius Search radius
+   * @param predicate Additional filter of the entities
+   * @returns {Entity[]} Entities ordered by their identifiers
+   */
+  public queryRadius(x: number, y: number, radius: number, predicate?: QueryPredicate): Entity[] {
+    const radiusSquared = radius * radius;
+    return this.queryCells(x - radius, y - radius, x + radius, y + radius, (entity) => {
+      const position = this._position(entity);
+      const dx = position.x - x;
+      const dy = position.y - y;
+      return dx * dx + dy * dy <= radiusSquared && (predicate === undefined || predicate(entity));
+    });
+  }
+
+  /**
+   * Returns entities within the axis-aligned bounding box, including ones at its edges
+   * @param minX Left edge of the box
+   * @param minY Top edge of the box
+   * @param maxX Right edge of the box
+   * @param maxY Bottom edge of the box
+   * @param predicate Additional filter of the entities
+   * @returns {Entity[]} Entities ordered by their identifiers
+   */
+  public queryAabb(minX: number, minY: number, maxX: number, maxY: number, predicate?: QueryPredicate): Entity[] {
+    return this.queryCells(minX, minY, maxX, maxY, (entity) => {
+      const {x, y} = this._position(entity);
+      return x >= minX && x <= maxX && y >= minY && y <= maxY && (predicate === undefined || predicate(entity));
+    });
+  }
+
+  /**
+   * Returns the nearest entity to the point. If several entities are at the same distance, the one with the lowest
+   * identifier is returned.
+   * @param x X coordinate of the point
+   * @param y Y coordinate of the point
+   * @param maxDistance Maximum distance to the entity
+   * @param predicate Additional filter of the entities, e.g. to exclude the entity searching for its neighbour
+   * @returns {Entity | undefined} The nearest entity or `undefined` if there are no entities within the distance
+   */
+  public nearest(x: number, y: number, maxDistance: number = Infinity, predicate?: QueryPredicate): Entity | undefined {
+    const cellSize = this._cellSize;
+    const cellX = getCell(x, cellSize);
+    const cellY = getCell(y, cellSize);
+    let result: Entity | undefined = undefined;
+    let resultDistance = maxDistance * maxDistance;
+    const visitCell = (cell: ReadonlyArray<Entity>) => {
+      for (const entity of cell) {
+        const position = this._position(entity);
+        const dx = position.x - x;
+        const dy = position.y - y;
+        const distance = dx * dx + dy * dy;
+        const isCloser = distance < resultDistance
+          || (distance === resultDistance && (result === undefined || entity.id < result.id));
+        if (isCloser && (predicate === undefined || predicate(entity))) {
+          result = entity;
+          resultDistance = distance;
+        }
+      }
+    };
+    let visitedCells = 0;
+    for (let ring = 0; visitedCells < this._cells.size; ring++) {
+      // Every point of the ring is at least (ring - 1) cells away from the point
+      const ringDistance = Math.max(0, ring - 1) * cellSize;
+      if (ringDistance * ringDistance > resultDistance) break;
+      // Checking every non-empty cell is cheaper than looking up empty cells of the rings in the sparse grid
+      if ((ring * 2 + 1) * (ring * 2 + 1) > this._cells.size) {
+        for (const cell of this._cells.values()) {
+          visitCell(cell);
+        }
+        break;
+      }
+      for (let cy = cellY - ring; cy <= cellY + ring; cy++) {
+        const step = cy === cellY - ring || cy === cellY + ring ? 1 : ring * 2;
+        for (let cx = cellX - ring; cx <= cellX + ring; cx += step) {
+          const cell = this._cells.get(getCellKey(cx, cy));
+          if (cell === undefined) continue;
+          visitedCells++;
+          visitCell(cell);
+        }
+      }
+    }
+    return result;
+  }
+
+  protected insert(key: string, entity: Entity): void {
+    const cell = this._cells.get(key);
+    if (cell === undefined) {
+      this._cells.set(key, [entity]);
+    } else {
+      cell.push(entity);
+    }
+  }
+
+  protected delete(key: string, entity: Entity): void {
+    const cell = this._cells.get(key)!;
+    cell.splice(cell.indexOf(entity), 1);
+    if (cell.length === 0) {
+      this._cells.delete(key);
+    }
+  }
+
+  protected clearGroups(): void {
+    this._cells.clear();
+  }
+
+  private queryCells(minX: number, minY: number, maxX: number, maxY: number, predicate: QueryPredicate): Entity[] {
+    const result: Entity[] = [];
+    const cellSize = this._cellSize;
+    const minCellX = getCell(minX, cellSize);
+    const maxCellX = getCell(maxX, cellSize);
+    const minCellY = getCell(minY, cellSize);
+    const maxCellY = getCell(maxY, cellSize);
+    if ((maxCellX - minCellX + 1) * (maxCellY - minCellY + 1) > this._cells.size) {
+      for (const cell of this._cells.values()) {
+        filterCell(cell, predicate, result);
+      }
+    } else {
+      for (let cy = minCellY; cy <= maxCellY; cy++) {
+        for (let cx = minCellX; cx <= maxCellX; cx++) {
+          const cell = this._cells.get(getCellKey(cx, cy));
+          if (cell !== undefined) {
+            filterCell(cell, predicate, result);
+          }
+        }
+      }
+    }
+    return result.sort(compareIds);
+  }
+}
+
+function getCell(value: number, cellSize: number): number {
+  return Math.floor(value / cellSize);
+}
+
+function getCellKey(cellX: number, cellY: number): string {
+  return `${cellX},${cellY}`;
+}
+
+function filterCell(cell: ReadonlyArray<Entity>, predicate: QueryPredicate, result: Entity[]): void {
+  for (const entity of cell) {
+    if (predicate(entity)) {
+      result.push(entity);
+    }
+  }
+}
+
+function compareIds(a: Entity, b: Entity): number {
+  return a.id - b.id;
+}
@@ -1,14 +1,68 @@
 import {Engine} from './Engine';
 import {Entity} from './Entity';
+import {CommandBuffer} from './CommandBuffer';
+import {Class} from '../utils/Class';
+
+/**
+ * Update loop of the system
+ * - `variable` - system is updated once per {@link Engine.update} with the passed delta time.
+ * - `fixed` - system is updated zero or more times per {@link Engine.update} with {@link Engine.fixedTimeStep}.
+ */
+export type UpdateLoop = 'fixed' | 'variable';
 
 /**
  * Systems are logic bricks in your application.
  * If you want to manipulate entities and their components - it is the right place for that.
  */
 export abstract class System {
+  /**
+   * Classes of the systems, that this system should be updated before.
+   * Constraints are applied to systems of the same phase or of the same {@link SystemGroup}, and take precedence over
+   * the priority.
+   * @example
+   * ```ts
+   * class InputSystem extends System {
+   *   public readonly runsBefore = [MovementSystem];
+   * }
+   * ```
+   */
+  public readonly runsBefore: ReadonlyArray<Class<System>> = [];
+  /**
+   * Classes of the systems, that this system should be updated after.
+   * Constraints are applied to systems of the same phase or of the same {@link SystemGroup}, and take precedence over
+   * the priority.
+   * @see {@link runsBefore}
+   */
+  public readonly runsAfter: ReadonlyArray<Class<System>> = [];
+  /**
+   * Update loop of the system, `variable` by default.
+   * Systems of the {@link SystemGroup} are updated in the loop of the group.
+   * @example
+   * ```ts
+   * class PhysicsSystem extends System {
+   *   public readonly updateLoop = 'fixed';
+   * }
+   * ```
+   */
+  public readonly updateLoop: UpdateLoop = 'variable';
+  /**
+   * Value indicating whether the system is updated while the engine is paused, `false` by default
+   * @see {@link Engine.paused}
+   */
+  public readonly runsWhenPaused: boolean = false;
+  /**
+   * Time scale, that delta time is multiplied by before {@link update} is called, `1` by default.
+   * Time scale of the {@link SystemGroup} applies to all its systems.
+   * @see {@link Engine.time}
+   */
+  public timeScale: number = 1;
+
   private _priority: number = 0;
+  private _phase?: string;
   private _engine?: Engine;
   private _isRemovalRequested: boolean = false;
+  private _lastRunTick: number = 0;
+  private _enabled: boolean = true;
 
   /**
    * Gets an {@link Engine} instance that system attached to
@@ -38,6 +92,48 @@ export abstract class System {
     return this._engine.sharedConfig;
   }
 
+  /**
+   * Gets a command buffer of the engine, that records structural changes to be played back at the sync point.
+   * Use it to add or remove components, tags and entities while iterating over queries.
+   * @see {@link Engine.commands}
+   */
+  protected get commands(): CommandBuffer {
+    if (this._engine === undefined) throw new Error(`Property "commands" can't be accessed when system is not added to the engine`);
+    return this._engine.commands;
+  }
+
+  /**
+   * Gets a change tick at the moment when the last system update was finished.
+   * It can be used for finding out which components were changed since the last system update.
+   * Interval systems update it only when the interval runs.
+   * @see {@link Query.isChangedSince}, {@link Entity.isChangedSince}
+   */
+  public get lastRunTick(): number {
+    return this._lastRunTick;
+  }
+
+  /**
+   * Gets a value indicating whether the system is enabled, `true` by default
+   */
+  public get enabled(): boolean {
+    return this._enabled;
+  }
+
+  /**
+   * Enables or disables the system.
+   * Disabled system stays in the engine and keeps its queries up to date, but it's skipped by {@link Engine.update}.
+   * {@link onEnabled} or {@link onDisabled} is called when the value changes.
+   */
+  public set enabled(value: boolean) {
+    if (this._enabled === value) return;
+    this._enabled = value;
+    if (value) {
+      this.onEnabled();
+    } else {
+      this.onDisabled();
+    }
+  }
+
   /**
    * Gets a priority of the system
    */
@@ -45,12 +141,51 @@ export abstract class System {
     return this._priority;
   }
 
+  /**
+   * Gets a phase of the engine update, that system is updated in.
+   * It's `undefined` for systems of the {@link SystemGroup}, they are updated in the phase of the group.
+   */
+  public get phase(): string | undefined {
+    return this._phase;
+  }
+
   /**
    * All logic aimed at making changes in entities and their components must be placed in this method.
    * @param dt - The time in seconds it took from previous update call.
    */
   public update(dt: number) {}
 
+  /**
+   * Returns system-local state, that is saved by {@link Engine.saveState}.
+   * Override it together with {@link restoreState}, if the system keeps any state that affects the simulation.
+   * If it returns `undefined` - {@link restoreState} won't be called.
+   * @see {@link Engine.saveState}
+   * @example
+   * ```ts
+   * class SpawnSystem extends System {
+   *   private _cooldown: number = 0;
+   *
+   *   public saveState(): unknown {
+   *     return this._cooldown;
+   *   }
+   *
+   *   public restoreState(state: unknown): void {
+   *     this._cooldown = state as number;
+   *   }
+   * }
+   * ```
+   */
+  public saveState(): unknown {
+    return undefined;
+  }
+
+  /**
+   * Restores system-local state returned by {@link saveState}
+   * @param state Saved state
+   * @see {@link Engine.restoreState}
+   */
+  public restoreState(state: unknown): void {}
+
   /**
    * This method will be called after the system will be added to the Engine.
    */
@@ -61,6 +196,18 @@ export abstract class System {
    */
   public onRemovedFromEngine() {}
 
+  /**
+   * Callback that will be invoked after enabling the system
+   * @see {@link enabled}
+   */
+  public onEnabled() {}
+
+  /**
+   * Callback that will be invoked after disabling the system
+   * @see {@link enabled}
+   */
+  public onDisabled() {}
+
   /**
    * Dispatches a message, that can be caught via {@link Engine#subscribe}.
    * It's the best way to send a message outside. This mechanism allows you not to invent the signals/dispatchers
@@ -111,6 +258,29 @@ export abstract class System {
     this._engine = engine;
   }
 
+  /**
+   * @internal
+   */
+  public setLastRunTick(tick: number): void {
+    this._lastRunTick = tick;
+  }
+
+  /**
+   * Called by the engine, when the update of the system is finished
+   * @param tick Change tick at the end of the update
+   * @internal
+   */
+  public completeUpdate(tick: number): void {
+    this._lastRunTick = tick;
+  }
+
+  /**
+   * @internal
+   */
+  public setPhase(phase: string | undefined): void {
+    this._phase = phase;
+  }
+
   /**
    * @internal
    */
@@ -122,3 +292,71 @@ export abstract class System {
     this._isRemovalRequested = true;
   }
 }
+
+/**
+ * Sorts systems topologically according to their {@link System.runsBefore} and {@link System.runsAfter} constraints.
+ * Systems that aren't constrained relative to each other keep the order of the passed list, that is expected to be
+ * sorted by phase and priority.
+ *
+ * @throws Throws error listing the systems of the cycle, if constraints have one, or if a constraint refers to a system
+ *  of another phase
+ * @param systems Systems to sort
+ * @param phaseOf Gets the phase of the system, so systems can be sorted before their phase is set
+ * @internal
+ */
+export function sortSystems(
+  systems: ReadonlyArray<System>,
+  phaseOf: (system: System) => string | undefined = system => system.phase,
+): System[] {
+  const count = systems.length;
+  const predecessors: number[][] = systems.map(() => []);
+  const successors: number[][] = systems.map(() => []);
+  for (let i = 0; i < count; i++) {
+    for (let j = 0; j < count; j++) {
+      if (i === j || !runsBefore(systems[i], systems[j])) continue;
+      if (phaseOf(systems[i]) !== phaseOf(systems[j])) {
+        throw new Error(
+          `System ${systems[i].constructor.name} of phase "${phaseOf(systems[i])}" can't run before ` +
+          `${systems[j].constructor.name} of phase "${phaseOf(systems[j])}"`,
+        );
+      }
+      successors[i].push(j);
+      predecessors[j].push(i);
+    }
+  }
+  const remaining = predecessors.map(value => value.length);
+  const sorted: System[] = [];
+  const done: boolean[] = new Array(count).fill(false);
+  while (sorted.length < count) {
+    const index = remaining.findIndex((value, i) => value === 0 && !done[i]);
+    if (index === -1) {
+      throw new Error(`Ordering constraints of the systems have a cycle: ${findCycle(systems, predecessors, done)}`);
+    }
+    done[index] = true;
+    sorted.push(systems[index]);
+    for (const successor of successors[index]) {
+      remaining[successor]--;
+    }
+  }
+  return sorted;
+}
+
+function runsBefore(system: System, other: System): boolean {
+  return system.runsBefore.some(value => other instanceof value) || other.runsAfter.some(value => system instanceof value);
+}
+
+function findCycle(systems: ReadonlyArray<System>, predecessors: number[][], done: boolean[]): string {
+  const path: number[] = [];
+  const positions: Map<number, number> = new Map();
+  let index = done.indexOf(false);
+  while (!positions.has(index)) {
+    positions.set(index, path.length);
+    path.push(index);
+    index = predecessors[index].find(value => !done[value])!;
+  }
+  const cycle = path.slice(positions.get(index)!).reverse();
+  const start = cycle.indexOf(Math.min(...cycle));
+  cycle.push(...cycle.splice(0, start));
+  cycle.push(cycle[0]);
+  return cycle.map(value => systems[value].constructor.name).join(' -> ');
+}
@@ -0,0 +1,163 @@
+import {sortSystems, System} from './System';
+import {Class} from '../utils/Class';
+
+/**
+ * System group is a system, that contains other systems and updates them in the order of their priority.
+ * Groups can be nested, enabled and disabled together, and update their systems with their own delta time.
+ *
+ * @example
+ * ```ts
+ * const physics = new SystemGroup()
+ *   .addSystem(new GravitySystem(), 0)
+ *   .addSystem(new CollisionSystem(), 1);
+ * physics.dt = 1 / 60;
+ * engine.addSystem(physics, 0, 'update');
+ * // Pause physics
+ * physics.enabled = false;
+ * ```
+ */
+export class SystemGroup extends System {
+  /**
+   * Delta time, that systems of the group are updated with.
+   * If it's `undefined` - systems are updated with the delta time passed to the group, otherwise time scales of the
+   * engine and of the group are not applied.
+   */
+  public dt: number | undefined = undefined;
+
+  private _systems: System[] = [];
+  private _added: boolean = false;
+
+  /**
+   * Gets a list of systems added to the group
+   */
+  public get systems(): ReadonlyArray<System> {
+    return this._systems;
+  }
+
+  /**
+   * Adds a system to the group, and set its priority inside of the group.
+   * If the group is added to the engine - the system is added to the engine as well.
+   * Systems are sorted according to their {@link System.runsBefore} and {@link System.runsAfter} constraints.
+   *
+   * @throws Throws error if ordering constraints of systems have a cycle. The system is not added then.
+   * @param system System to add to the group
+   * @param priority Value indicating the priority of updating system in update loop of the group. Lower priority
+   *  means sooner update.
+   * @returns {SystemGroup} Reference to the group itself. It helps to build chain of calls.
+   */
+  public addSystem(system: System, priority: number = 0): SystemGroup {
+    const systems = this._systems.concat();
+    const index = systems.findIndex(value => value.priority > priority);
+    if (index === -1) {
+      systems.push(system);
+    } else {
+      systems.splice(index, 0, system);
+    }
+    const sorted = sortSystems(systems, value => value === system ? undefined : value.phase);
+    system.setPriority(priority);
+    system.setPhase(undefined);
+    this._systems.splice(0, this._systems.length, ...sorted);
+    if (this._added) {
+      system.setEngine(this.engine);
+      system.onAddedToEngine();
+    }
+    return this;
+  }
+
+  /**
+   * Removes a system from the group
+   *
+   * @param system System to remove
+   * @returns {SystemGroup} Reference to the group itself. It helps to build chain of calls.
+   */
+  public removeSystem(system: System): SystemGroup {
+    const index = this._systems.indexOf(system);
+    if (index === -1) return this;
+    this._systems.splice(index, 1);
+    if (this._added) {
+      system.onRemovedFromEngine();
+      system.setEngine(undefined);
+    }
+    return this;
+  }
+
+  /**
+   * Gets a system of specific class from the group or from its nested groups
+   *
+   * @param systemClass Class of the system
+   */
+  public getSystem<T extends System>(systemClass: Class<T>): T | undefined {
+    return findSystem(this._systems, systemClass);
+  }
+
+  /**
+   * Updates systems of the group
+   *
+   * @param dt Delta time in seconds
+   */
+  public update(dt: number) {
+    this.updateSystems(this.dt ?? dt);
+  }
+
+  public onAddedToEngine() {
+    this._added = true;
+    for (const system of this._systems) {
+      system.setEngine(this.engine);
+      system.onAddedToEngine();
+    }
+  }
+
+  public onRemovedFromEngine() {
+    this._added = false;
+    for (const system of this._systems) {
+      system.onRemovedFromEngine();
+      system.setEngine(undefined);
+    }
+  }
+
+  /**
+   * Updates every system of the group with specified delta time
+   *
+   * @param dt Delta time in seconds
+   */
+  protected updateSystems(dt: number) {
+    for (const system of this._systems.slice()) {
+      this.engine.updateSystem(system, dt);
+      if (system.isRemovalRequested) {
+        this.removeSystem(system);
+      }
+    }
+  }
+}
+
+/**
+ * Finds a system of specific class in the list of systems or in the nested groups
+ * @internal
+ */
+export function findSystem<T extends System>(systems: ReadonlyArray<System>, systemClass: Class<T>): T | undefined {
+  for (const system of systems) {
+    if (system instanceof systemClass) {
+      return system;
+    }
+    if (system instanceof SystemGroup) {
+      const nested = system.getSystem(systemClass);
+      if (nested !== undefined) {
+        return nested;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Calls action for every system in the list and in the nested groups
+ * @internal
+ */
+export function forEachSystem(systems: ReadonlyArray<System>, action: (system: System) => void): void {
+  for (const system of systems) {
+    action(system);
+    if (system instanceof SystemGroup) {
+      forEachSystem(system.systems, action);
+    }
+  }
+}
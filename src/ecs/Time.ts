@@ -0,0 +1,89 @@
+/**
+ * Time service of the engine. It keeps track of the time passed to {@link Engine.update}, and scales it globally.
+ *
+ * @example
+ * ```ts
+ * // Bullet-time
+ * engine.time.scale = 0.2;
+ *
+ * class HudSystem extends System {
+ *   public update(dt: number) {
+ *     this.timer.text = formatTime(this.engine.time.unscaledElapsed);
+ *   }
+ * }
+ * ```
+ */
+export class Time {
+  /**
+   * Global time scale, that delta time passed to {@link Engine.update} is multiplied by, `1` by default
+   */
+  public scale: number = 1;
+
+  private _dt: number = 0;
+  private _unscaledDt: number = 0;
+  private _elapsed: number = 0;
+  private _unscaledElapsed: number = 0;
+  private _frameCount: number = 0;
+
+  /**
+   * Gets a scaled delta time of the current update in seconds
+   */
+  public get dt(): number {
+    return this._dt;
+  }
+
+  /**
+   * Gets a delta time of the current update in seconds as it was passed to {@link Engine.update}
+   */
+  public get unscaledDt(): number {
+    return this._unscaledDt;
+  }
+
+  /**
+   * Gets a total scaled time in seconds passed to the engine
+   */
+  public get elapsed(): number {
+    return this._elapsed;
+  }
+
+  /**
+   * Gets a total time in seconds passed to the engine, regardless of the time scale
+   */
+  public get unscaledElapsed(): number {
+    return this._unscaledElapsed;
+  }
+
+  /**
+   * Gets a number of engine updates
+   */
+  public get frameCount(): number {
+    return this._frameCount;
+  }
+
+  /**
+   * Advances time by the delta time of the new update
+   * @internal
+   * @return {number} Scaled delta time
+   */
+  public advance(dt: number): number {
+    this._unscaledDt = dt;
+    this._dt = dt * this.scale;
+    this._unscaledElapsed += dt;
+    this._elapsed += this._dt;
+    this._frameCount++;
+    return this._dt;
+  }
+
+  /**
+   * @internal
+   */
+  public copyFrom(time: Time): this {
+    this.scale = time.scale;
+    this._dt = time._dt;
+    this._unscaledDt = time._unscaledDt;
+    this._elapsed = time._elapsed;
+    this._unscaledElapsed = time._unscaledElapsed;
+    this._frameCount = time._frameCount;
+    return this;
+  }
+}
@@ -0,0 +1,46 @@
+import {Query, QueryBuilder, QueryTuple} from './Query';
+import {Entity} from './Entity';
+import {AbstractIterativeSystem, IterativeSystemOptions} from './IterativeSystem';
+
+/**
+ * Iterative system, that passes entities of its query to {@link updateEntity} along with their components.
+ * Types of the components are checked against the ones inferred by the {@link QueryBuilder}, so there is no need to get
+ * them from the entity.
+ * The same tuple is reused for every entity, so it shouldn't be kept - copy it if it's needed.
+ *
+ * @example
+ * ```ts
+ * class MovementSystem extends TypedIterativeSystem<[Position, Velocity]> {
+ *   public constructor() {
+ *     super(new QueryBuilder().contains(Position, Velocity));
+ *   }
+ *
+ *   protected updateEntity([entity, position, velocity]: [Entity, Position, Velocity], dt: number): void {
+ *     position.x += velocity.x * dt;
+ *     position.y += velocity.y * dt;
+ *   }
+ * }
+ * ```
+ */
+export abstract class TypedIterativeSystem<C extends unknown[]> extends AbstractIterativeSystem {
+  protected declare readonly query: Query<C>;
+
+  /**
+   * @throws Throws error if the budget has no limits, or limits are not positive
+   */
+  protected constructor(query: Query<C> | QueryBuilder<C>, options: IterativeSystemOptions = {}) {
+    super(query, options);
+  }
+
+  protected visitEntity(entity: Entity, dt: number): void {
+    this.updateEntity(this.query.getTuple(entity), dt);
+  }
+
+  /**
+   * Update entity
+   *
+   * @param tuple Entity to update and its components
+   * @param dt Delta time in seconds
+   */
+  protected abstract updateEntity(tuple: QueryTuple<C>, dt: number): void;
+}
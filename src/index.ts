@@ -4,8 +4,20 @@ export * from './ecs/ComponentId';
 export * from './ecs/Tag';
 export * from './ecs/LinkedComponent';
 export * from './ecs/Engine';
+export * from './ecs/ComponentRegistry';
+export * from './ecs/Serialization';
+export * from './ecs/Replication';
+export * from './ecs/RollbackBuffer';
+export * from './ecs/CommandBuffer';
 export * from './ecs/Entity';
 export * from './ecs/System';
+export * from './ecs/SystemGroup';
+export * from './ecs/Time';
 export * from './ecs/Query';
+export * from './ecs/QueryIndex';
+export * from './ecs/SpatialIndex';
 export * from './ecs/IterativeSystem';
+export * from './ecs/TypedIterativeSystem';
+export * from './ecs/IntervalSystem';
+export * from './ecs/IntervalIterativeSystem';
 export * from './ecs/ReactionSystem';
\ No newline at end of file
@@ -0,0 +1,238 @@
+/**
+ * Writes little-endian binary data to the growing buffer.
+ * @internal
+ */
+export class BinaryWriter {
+  private _buffer: ArrayBuffer;
+  private _view: DataView;
+  private _length: number = 0;
+
+  public constructor(initialCapacity: number = 1024) {
+    this._buffer = new ArrayBuffer(initialCapacity);
+    this._view = new DataView(this._buffer);
+  }
+
+  /**
+   * Returns written bytes
+   */
+  public get bytes(): Uint8Array {
+    return new Uint8Array(this._buffer.slice(0, this._length));
+  }
+
+  public writeInt8(value: number): void {
+    this.ensureCapacity(1);
+    this._view.setInt8(this._length, value);
+    this._length += 1;
+  }
+
+  public writeUint8(value: number): void {
+    this.ensureCapacity(1);
+    this._view.setUint8(this._length, value);
+    this._length += 1;
+  }
+
+  public writeInt16(value: number): void {
+    this.ensureCapacity(2);
+    this._view.setInt16(this._length, value, true);
+    this._length += 2;
+  }
+
+  public writeUint16(value: number): void {
+    this.ensureCapacity(2);
+    this._view.setUint16(this._length, value, true);
+    this._length += 2;
+  }
+
+  public writeInt32(value: number): void {
+    this.ensureCapacity(4);
+    this._view.setInt32(this._length, value, true);
+    this._length += 4;
+  }
+
+  public writeUint32(value: number): void {
+    this.ensureCapacity(4);
+    this._view.setUint32(this._length, value, true);
+    this._length += 4;
+  }
+
+  public writeFloat32(value: number): void {
+    this.ensureCapacity(4);
+    this._view.setFloat32(this._length, value, true);
+    this._length += 4;
+  }
+
+  public writeFloat64(value: number): void {
+    this.ensureCapacity(8);
+    this._view.setFloat64(this._length, value, true);
+    this._length += 8;
+  }
+
+  public writeBoolean(value: boolean): void {
+    this.writeUint8(value ? 1 : 0);
+  }
+
+  /**
+   * Writes UTF-8 encoded string prefixed with its length in bytes increased by one, zero length means `undefined`.
+   */
+  public writeString(value: string | undefined): void {
+    if (value === undefined) {
+      this.writeUint32(0);
+      return;
+    }
+    const bytes = encodeUtf8(value);
+    this.writeUint32(bytes.length + 1);
+    this.ensureCapacity(bytes.length);
+    new Uint8Array(this._buffer, this._length, bytes.length).set(bytes);
+    this._length += bytes.length;
+  }
+
+  private ensureCapacity(size: number): void {
+    if (this._length + size <= this._buffer.byteLength) return;
+    let capacity = this._buffer.byteLength * 2;
+    while (capacity < this._length + size) {
+      capacity *= 2;
+    }
+    const buffer = new ArrayBuffer(capacity);
+    new Uint8Array(buffer).set(new Uint8Array(this._buffer, 0, this._length));
+    this._buffer = buffer;
+    this._view = new DataView(buffer);
+  }
+}
+
+/**
+ * Reads little-endian binary data written by {@link BinaryWriter}.
+ * @internal
+ */
+export class BinaryReader {
+  private readonly _bytes: Uint8Array;
+  private readonly _view: DataView;
+  private _position: number = 0;
+
+  public constructor(bytes: Uint8Array) {
+    this._bytes = bytes;
+    this._view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  public readInt8(): number {
+    const value = this._view.getInt8(this._position);
+    this._position += 1;
+    return value;
+  }
+
+  public readUint8(): number {
+    const value = this._view.getUint8(this._position);
+    this._position += 1;
+    return value;
+  }
+
+  public readInt16(): number {
+    const value = this._view.getInt16(this._position, true);
+    this._position += 2;
+    return value;
+  }
+
+  public readUint16(): number {
+    const value = this._view.getUint16(this._position, true);
+    this._position += 2;
+    return value;
+  }
+
+  public readInt32(): number {
+    const value = this._view.getInt32(this._position, true);
+    this._position += 4;
+    return value;
+  }
+
+  public readUint32(): number {
+    const value = this._view.getUint32(this._position, true);
+    this._position += 4;
+    return value;
+  }
+
+  public readFloat32(): number {
+    const value = this._view.getFloat32(this._position, true);
+    this._position += 4;
+    return value;
+  }
+
+  public readFloat64(): number {
+    const value = this._view.getFloat64(this._position, true);
+    this._position += 8;
+    return value;
+  }
+
+  public readBoolean(): boolean {
+    return this.readUint8() !== 0;
+  }
+
+  public readString(): string | undefined {
+    const length = this.readUint32();
+    if (length === 0) return undefined;
+    const start = this._position;
+    this._position += length - 1;
+    if (this._position > this._bytes.length) {
+      throw new RangeError('Offset is outside the bounds of the DataView');
+    }
+    return decodeUtf8(this._bytes, start, this._position);
+  }
+}
+
+/**
+ * @internal
+ */
+export function encodeUtf8(value: string): number[] {
+  const bytes: number[] = [];
+  for (let i = 0; i < value.length; i++) {
+    let code = value.charCodeAt(i);
+    if (code >= 0xD800 && code <= 0xDBFF && i + 1 < value.length) {
+      const next = value.charCodeAt(i + 1);
+      if (next >= 0xDC00 && next <= 0xDFFF) {
+        code = 0x10000 + ((code - 0xD800) << 10) + (next - 0xDC00);
+        i++;
+      }
+    }
+    if (code < 0x80) {
+      bytes.push(code);
+    } else if (code < 0x800) {
+      bytes.push(0xC0 | (code >> 6), 0x80 | (code & 0x3F));
+    } else if (code < 0x10000) {
+      bytes.push(0xE0 | (code >> 12), 0x80 | ((code >> 6) & 0x3F), 0x80 | (code & 0x3F));
+    } else {
+      bytes.push(
+        0xF0 | (code >> 18),
+        0x80 | ((code >> 12) & 0x3F),
+        0x80 | ((code >> 6) & 0x3F),
+        0x80 | (code & 0x3F),
+      );
+    }
+  }
+  return bytes;
+}
+
+/**
+ * @internal
+ */
+export function decodeUtf8(bytes: Uint8Array, start: number = 0, end: number = bytes.length): string {
+  let result = '';
+  let i = start;
+  while (i < end) {
+    const byte = bytes[i++];
+    let code: number;
+    if (byte < 0x80) {
+      code = byte;
+    } else if (byte < 0xE0) {
+      code = ((byte & 0x1F) << 6) | (bytes[i++] & 0x3F);
+    } else if (byte < 0xF0) {
+      code = ((byte & 0x0F) << 12) | ((bytes[i++] & 0x3F) << 6) | (bytes[i++] & 0x3F);
+    } else {
+      code = ((byte & 0x07) << 18) | ((bytes[i++] & 0x3F) << 12) | ((bytes[i++] & 0x3F) << 6) | (bytes[i++] & 0x3F);
+    }
+    if (code >= 0x10000) {
+      code -= 0x10000;
+      result += String.fromCharCode(0xD800 + (code >> 10), 0xDC00 + (code & 0x3FF));
+    } else {
+      result += String.fromCharCode(code);
+    }
+  }
+  return result;
+}
@@ -0,0 +1,64 @@
+import {Engine, EngineStorage, Entity, QueryBuilder} from '../../src';
+
+class Position {
+  public x: number = 0;
+  public y: number = 0;
+}
+
+class Velocity {
+  public x: number = 0;
+  public y: number = 0;
+}
+
+class Health {
+  public value: number = 1;
+}
+
+class Frozen {}
+
+class View {}
+
+const SELECTED = 'selected';
+
+const ENTITIES_AMOUNT = 100000;
+const WARM_UP_AMOUNT = 10000;
+
+function measure(storage: EngineStorage, amount: number): { time: number, lengths: number[] } {
+  const engine = new Engine({storage});
+  const queries = [
+    new QueryBuilder().contains(Position).excludes(Frozen).build(),
+    new QueryBuilder().contains(Position, Velocity, View).build(),
+    new QueryBuilder().contains(Health, Frozen).build(),
+    new QueryBuilder().contains(Velocity).anyOf(View, Frozen).build(),
+    new QueryBuilder().contains(SELECTED, View).build(),
+  ];
+  queries.forEach((query) => engine.addQuery(query));
+
+  const start = performance.now();
+  const entities: Entity[] = [];
+  for (let i = 0; i < amount; i++) {
+    const entity = new Entity().add(new Position()).add(new Health());
+    entities.push(entity);
+    engine.addEntity(entity);
+  }
+  for (const entity of entities) {
+    entity.add(new Velocity()).add(SELECTED);
+  }
+  for (const entity of entities) {
+    entity.remove(Velocity);
+    entity.remove(SELECTED);
+  }
+  return {time: performance.now() - start, lengths: queries.map((query) => query.length)};
+}
+
+describe('Archetype storage benchmark', () => {
+  it(`Expected that archetype storage handles structural changes of ${ENTITIES_AMOUNT} entities faster than entity storage`, () => {
+    measure('entity', WARM_UP_AMOUNT);
+    measure('archetype', WARM_UP_AMOUNT);
+
+    const entityStorage = measure('entity', ENTITIES_AMOUNT);
+    const archetypeStorage = measure('archetype', ENTITIES_AMOUNT);
+    expect(archetypeStorage.lengths).toEqual(entityStorage.lengths);
+    expect(archetypeStorage.time).toBeLessThan(entityStorage.time);
+  }, 120000);
+});
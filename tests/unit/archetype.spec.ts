@@ -0,0 +1,225 @@
+import {Engine, EngineStorage, Entity, EntitySnapshot, LinkedComponent, Query, QueryBuilder} from '../../src';
+
+class Position {
+  public constructor(public x: number = 0, public y: number = 0) {}
+}
+
+class Velocity {
+  public constructor(public x: number = 0, public y: number = 0) {}
+}
+
+class Health {
+  public constructor(public value: number = 1) {}
+}
+
+class Frozen {}
+
+class View {}
+
+class Damage extends LinkedComponent {}
+
+const SELECTED = 'selected';
+
+describe('Archetype storage', () => {
+  it(`Expected that engine uses entity storage by default`, () => {
+    expect(new Engine().storage).toBe('entity');
+    expect(new Engine({storage: 'archetype'}).storage).toBe('archetype');
+  });
+
+  it(`Expected that entities added to engine are matched by existing queries`, () => {
+    const engine = new Engine({storage: 'archetype'});
+    const query = new QueryBuilder().contains(Position).excludes(Frozen).build();
+    engine.addQuery(query);
+    const movable = new Entity().add(new Position());
+    const frozen = new Entity().add(new Position()).add(new Frozen());
+    engine.addEntity(movable);
+    engine.addEntity(frozen);
+    expect(query.entities).toEqual([movable]);
+  });
+
+  it(`Expected that added query matches entities from all suitable archetypes`, () => {
+    const engine = new Engine({storage: 'archetype'});
+    const entities = [
+      new Entity().add(new Position()),
+      new Entity().add(new Position()).add(new Velocity()),
+      new Entity().add(new Position()).add(SELECTED),
+      new Entity().add(new Velocity()),
+    ];
+    entities.forEach((entity) => engine.addEntity(entity));
+    const query = new QueryBuilder().contains(Position).build();
+    engine.addQuery(query);
+    expect(query.length).toBe(3);
+    expect(query.has(entities[3])).toBeFalsy();
+  });
+
+  it(`Expected that adding and removing components and tags moves entity between queries`, () => {
+    const engine = new Engine({storage: 'archetype'});
+    const moving = new QueryBuilder().contains(Position, Velocity).excludes(Frozen).build();
+    const selected = new QueryBuilder().contains(Position).anyOf(SELECTED, View).build();
+    engine.addQuery(moving);
+    engine.addQuery(selected);
+    const entity = new Entity().add(new Position());
+    engine.addEntity(entity);
+    expect(moving.has(entity)).toBeFalsy();
+    expect(selected.has(entity)).toBeFalsy();
+
+    entity.add(new Velocity());
+    expect(moving.has(entity)).toBeTruthy();
+    entity.add(SELECTED);
+    expect(selected.has(entity)).toBeTruthy();
+    entity.add(new Frozen());
+    expect(moving.has(entity)).toBeFalsy();
+    entity.add(new View());
+    entity.remove(SELECTED);
+    expect(selected.has(entity)).toBeTruthy();
+    entity.remove(View);
+    expect(selected.has(entity)).toBeFalsy();
+    entity.remove(Frozen);
+    expect(moving.has(entity)).toBeTruthy();
+    entity.remove(Position);
+    expect(moving.has(entity)).toBeFalsy();
+  });
+
+  it(`Expected that replacing a component doesn't change query membership`, () => {
+    const engine = new Engine({storage: 'archetype'});
+    const query = new QueryBuilder().contains(Position).build();
+    let added = 0;
+    let removed = 0;
+    query.onEntityAdded.connect(() => added++);
+    query.onEntityRemoved.connect(() => removed++);
+    engine.addQuery(query);
+    const entity = new Entity().add(new Position());
+    engine.addEntity(entity);
+    entity.add(new Position(1, 1));
+    expect(query.has(entity)).toBeTruthy();
+    expect(added).toBe(2);
+    expect(removed).toBe(1);
+  });
+
+  it(`Expected that entity leaves the query only when the last linked component is withdrawn`, () => {
+    const engine = new Engine({storage: 'archetype'});
+    const query = new QueryBuilder().contains(Damage).build();
+    let added = 0;
+    let removed = 0;
+    query.onEntityAdded.connect(() => added++);
+    query.onEntityRemoved.connect(() => removed++);
+    engine.addQuery(query);
+    const entity = new Entity();
+    engine.addEntity(entity);
+    entity.append(new Damage()).append(new Damage()).append(new Damage());
+    expect(added).toBe(1);
+    entity.withdraw(Damage);
+    entity.withdraw(Damage);
+    expect(query.has(entity)).toBeTruthy();
+    entity.withdraw(Damage);
+    expect(query.has(entity)).toBeFalsy();
+    expect(removed).toBe(1);
+  });
+
+  it(`Expected that query signals receive proper snapshots`, () => {
+    const engine = new Engine({storage: 'archetype'});
+    const query = new QueryBuilder().contains(Position, Velocity).build();
+    let onAdded: boolean[] = [];
+    let onRemoved: boolean[] = [];
+    query.onEntityAdded.connect(({current, previous}: EntitySnapshot) => {
+      onAdded = [previous.has(Velocity), current.has(Velocity)];
+    });
+    query.onEntityRemoved.connect(({current, previous}: EntitySnapshot) => {
+      onRemoved = [previous.has(Velocity), current.has(Velocity)];
+    });
+    engine.addQuery(query);
+    const entity = new Entity().add(new Position());
+    engine.addEntity(entity);
+    entity.add(new Velocity());
+    entity.remove(Velocity);
+    expect(onAdded).toEqual([false, true]);
+    expect(onRemoved).toEqual([true, false]);
+  });
+
+  it(`Expected that removing entity from engine removes it from queries`, () => {
+    const engine = new Engine({storage: 'archetype'});
+    const query = new QueryBuilder().contains(Position).build();
+    engine.addQuery(query);
+    const entity = new Entity().add(new Position());
+    engine.addEntity(entity);
+    engine.removeEntity(entity);
+    expect(query.isEmpty).toBeTruthy();
+    entity.remove(Position);
+    entity.add(new Position());
+    expect(query.isEmpty).toBeTruthy();
+    engine.addEntity(entity);
+    expect(query.has(entity)).toBeTruthy();
+  });
+
+  it(`Expected that removed query is not updated anymore`, () => {
+    const engine = new Engine({storage: 'archetype'});
+    const query = new QueryBuilder().contains(Position).build();
+    engine.addQuery(query);
+    engine.addEntity(new Entity().add(new Position()));
+    engine.removeQuery(query);
+    expect(query.isEmpty).toBeTruthy();
+    const entity = new Entity();
+    engine.addEntity(entity.add(new Velocity()));
+    entity.add(new Position());
+    expect(query.isEmpty).toBeTruthy();
+  });
+
+  it(`Expected that removing all entities clears queries`, () => {
+    const engine = new Engine({storage: 'archetype'});
+    const query = new QueryBuilder().contains(Position).build();
+    let removed = 0;
+    query.onEntityRemoved.connect(() => removed++);
+    engine.addQuery(query);
+    engine.addEntity(new Entity().add(new Position()));
+    engine.addEntity(new Entity().add(new Position()));
+    engine.removeAllEntities();
+    expect(query.isEmpty).toBeTruthy();
+    expect(removed).toBe(2);
+  });
+
+  it(`Expected that queries with custom predicates still match every entity`, () => {
+    const engine = new Engine({storage: 'archetype'});
+    const query = new Query((entity) => entity.has(Health) && entity.get(Health)!.value > 0);
+    engine.addQuery(query);
+    const entity = new Entity().add(new Health(0));
+    engine.addEntity(entity);
+    expect(query.isEmpty).toBeTruthy();
+    entity.get(Health)!.value = 1;
+    entity.invalidate();
+    expect(query.has(entity)).toBeTruthy();
+    entity.remove(Health);
+    expect(query.isEmpty).toBeTruthy();
+  });
+
+  it(`Expected that archetype storage matches the same entities as entity storage`, () => {
+    const match = (storage: EngineStorage) => {
+      const engine = new Engine({storage});
+      const queries = [
+        new QueryBuilder().contains(Position).excludes(Frozen).build(),
+        new QueryBuilder().contains(Position, Velocity, View).build(),
+        new QueryBuilder().contains(Health, Frozen).build(),
+        new QueryBuilder().contains(Velocity).anyOf(View, Frozen).build(),
+        new QueryBuilder().contains(SELECTED, View).build(),
+      ];
+      queries.forEach((query) => engine.addQuery(query));
+      const entities: Entity[] = [];
+      for (let i = 0; i < 8; i++) {
+        const entity = new Entity().add(new Position()).add(new Health());
+        entities.push(entity);
+        engine.addEntity(entity);
+      }
+      entities.forEach((entity, index) => {
+        if (index % 2 === 0) entity.add(new Velocity());
+        if (index % 3 === 0) entity.add(new View()).add(SELECTED);
+        if (index % 4 === 0) entity.add(new Frozen());
+      });
+      entities[0].remove(SELECTED);
+      entities[6].remove(Velocity);
+      engine.removeEntity(entities[3]);
+      return queries.map((query) => query.entities.map((entity) => entities.indexOf(entity)).sort());
+    };
+    const expected = match('entity');
+    expect(expected).toEqual([[1, 2, 5, 6, 7], [0], [0, 4], [0, 4], [6]]);
+    expect(match('archetype')).toEqual(expected);
+  });
+});
@@ -0,0 +1,192 @@
+import {ComponentRegistry, Engine, Entity, LinkedComponent} from '../../src';
+import {decodeUtf8, encodeUtf8} from '../../src/utils/Binary';
+
+class Position {
+  public constructor(public x: number = 0, public y: number = 0) {}
+}
+
+class Stats {
+  public constructor(
+    public level: number = 0,
+    public health: number = 0,
+    public armor: number = 0,
+    public gold: number = 0,
+    public experience: number = 0,
+    public speed: number = 0,
+    public name?: string,
+    public alive: boolean = true,
+  ) {}
+}
+
+class Target {
+  public constructor(public entity?: Entity) {}
+}
+
+class Damage extends LinkedComponent {
+  public constructor(public value: number = 0, id?: string) {
+    super(id);
+  }
+}
+
+class Shape {}
+
+class Circle extends Shape {
+  public constructor(public radius: number = 1) {
+    super();
+  }
+}
+
+class OwnedBy {}
+
+const HERO = 'hero';
+const LEVEL = 3;
+
+function createRegistry(): ComponentRegistry {
+  return new ComponentRegistry()
+    .register('position', Position, {schema: {x: 'float64', y: 'float64'}})
+    .register('stats', Stats, {
+      schema: {
+        level: 'int8',
+        health: 'int16',
+        armor: 'uint8',
+        gold: 'uint32',
+        experience: 'int32',
+        speed: 'float32',
+        name: 'string',
+        alive: 'boolean',
+      },
+    })
+    .register('target', Target, {schema: {entity: 'entity'}})
+    .register('damage', Damage, {schema: {value: 'uint16'}})
+    .register('shape', Shape, {schema: {}})
+    .register('circle', Circle, {schema: {radius: 'float32'}})
+    .register('ownedBy', OwnedBy);
+}
+
+function roundTrip(source: Engine, registry: ComponentRegistry = createRegistry()): Engine {
+  const engine = new Engine();
+  engine.deserializeBinary(source.serializeBinary(registry), registry);
+  return engine;
+}
+
+describe('UTF-8', () => {
+  it('Encodes strings the same way as Buffer', () => {
+    const value = 'Hello, Мир! 你好 🎮 ß';
+    expect(encodeUtf8(value)).toEqual(Array.from(Buffer.from(value, 'utf8')));
+    expect(decodeUtf8(Uint8Array.from(encodeUtf8(value)))).toBe(value);
+  });
+});
+
+describe('Binary serialization', () => {
+  it('Fields of all types are restored', () => {
+    const source = new Engine();
+    source.addEntity(new Entity()
+      .add(new Position(1.5, -2.25))
+      .add(new Stats(-5, -1000, 200, 4000000000, -2000000000, 0.5, 'Герой 🛡', false)));
+
+    const [entity] = roundTrip(source).entities;
+    expect(entity.get(Position)).toBeInstanceOf(Position);
+    expect(entity.get(Position)).toEqual(new Position(1.5, -2.25));
+    expect(entity.get(Stats)).toEqual(new Stats(-5, -1000, 200, 4000000000, -2000000000, 0.5, 'Герой 🛡', false));
+  });
+
+  it('Undefined strings are restored', () => {
+    const source = new Engine();
+    source.addEntity(new Entity().add(new Stats()));
+
+    const [entity] = roundTrip(source).entities;
+    expect(entity.get(Stats)!.name).toBeUndefined();
+  });
+
+  it('Tags and shared config are restored', () => {
+    const source = new Engine();
+    source.addEntity(new Entity().add(HERO).add(LEVEL).add(-0.5));
+    source.sharedConfig.add(new Position(10, 20)).add(HERO);
+
+    const engine = roundTrip(source);
+    expect(Array.from(engine.entities[0].tags)).toEqual([HERO, LEVEL, -0.5]);
+    expect(engine.sharedConfig.get(Position)).toEqual(new Position(10, 20));
+    expect(engine.sharedConfig.has(HERO)).toBeTruthy();
+  });
+
+  it('Linked components are restored in the order of the chain with their ids', () => {
+    const source = new Engine();
+    source.addEntity(new Entity().append(new Damage(1, 'a')).append(new Damage(2)).append(new Damage(3, 'c')));
+
+    const [entity] = roundTrip(source).entities;
+    const damages = Array.from(entity.getAll(Damage));
+    expect(damages.map(value => value.value)).toEqual([1, 2, 3]);
+    expect(damages.map(value => value.id)).toEqual(['a', undefined, 'c']);
+    expect(damages[1]).toBeInstanceOf(Damage);
+  });
+
+  it('Components added with resolve class are restored with the same resolve class', () => {
+    const source = new Engine();
+    source.addEntity(new Entity().add(new Circle(5), Shape));
+
+    const [entity] = roundTrip(source).entities;
+    expect(entity.get(Shape)).toBeInstanceOf(Circle);
+    expect((entity.get(Shape) as Circle).radius).toBe(5);
+  });
+
+  it('Entity references, parents and relations are restored', () => {
+    const source = new Engine();
+    const player = new Entity();
+    const enemy = new Entity().add(new Target(player));
+    const sword = new Entity().setParent(player).addRelation(OwnedBy, player);
+    const lost = new Entity().add(new Target(new Entity())).setParent(new Entity());
+    source.addEntity(player);
+    source.addEntity(enemy);
+    source.addEntity(sword);
+    source.addEntity(lost);
+
+    const [newPlayer, newEnemy, newSword, newLost] = roundTrip(source).entities;
+    expect(newEnemy.get(Target)!.entity).toBe(newPlayer);
+    expect(newSword.parent).toBe(newPlayer);
+    expect(newSword.hasRelation(OwnedBy, newPlayer)).toBeTruthy();
+    expect(newLost.get(Target)!.entity).toBeUndefined();
+    expect(newLost.parent).toBeUndefined();
+  });
+
+  it('Component without schema can not be serialized', () => {
+    const registry = new ComponentRegistry().register('position', Position);
+    const engine = new Engine();
+    engine.addEntity(new Entity().add(new Position()));
+    expect(() => engine.serializeBinary(registry)).toThrowError('Component "position" has no schema');
+  });
+
+  it('Entity with too many tags can not be serialized', () => {
+    const engine = new Engine();
+    const entity = new Entity();
+    for (let i = 0; i <= 0xFFFF; i++) {
+      entity.add(i);
+    }
+    engine.addEntity(entity);
+    expect(() => engine.serializeBinary(createRegistry()))
+      .toThrowError(`Entity ${entity.id} has 65536 tags, but at most 65535 can be serialized`);
+  });
+
+  it('Document with another registry version can not be deserialized', () => {
+    const source = new Engine();
+    source.addEntity(new Entity().add(new Position()));
+    const bytes = source.serializeBinary(createRegistry());
+    expect(() => new Engine().deserializeBinary(bytes, new ComponentRegistry(1)))
+      .toThrowError('Binary document version 0 doesn\'t match the registry version 1');
+  });
+
+  it('Binary document is much smaller than JSON', () => {
+    const registry = createRegistry();
+    const engine = new Engine();
+    for (let i = 0; i < 1000; i++) {
+      engine.addEntity(new Entity()
+        .add(new Position(i * 0.5, i * 2))
+        .add(new Stats(i % 100, i, i % 256, i * 100, i * 1000, i / 3, 'unit', i % 2 === 0))
+        .add(HERO));
+    }
+
+    const binarySize = engine.serializeBinary(registry).byteLength;
+    const jsonSize = JSON.stringify(engine.serialize(registry)).length;
+    expect(binarySize * 3).toBeLessThan(jsonSize);
+    expect(roundTrip(engine, registry).entities.length).toBe(1000);
+  });
+});
@@ -0,0 +1,197 @@
+import {Engine, Entity, getChangeTick, IterativeSystem, LinkedComponent, Query, QueryBuilder} from '../../src';
+
+class Position {
+  public constructor(public x: number = 0, public y: number = 0) {}
+}
+
+class View {}
+
+class Selection {}
+
+class Damage extends LinkedComponent {}
+
+class TestSystem extends IterativeSystem {
+  public updated: Entity[] = [];
+
+  public constructor(builder: QueryBuilder) {
+    super(builder);
+  }
+
+  public update(dt: number) {
+    this.updated = [];
+    super.update(dt);
+  }
+
+  protected updateEntity(entity: Entity, dt: number): void {
+    this.updated.push(entity);
+  }
+}
+
+describe('Entity change tracking', () => {
+  it(`Expected that component version is increased on adding and marking as changed`, () => {
+    const entity = new Entity();
+    expect(entity.getVersion(Position)).toBe(0);
+    entity.add(new Position());
+    expect(entity.getVersion(Position)).toBe(1);
+    entity.markChanged(Position);
+    entity.markChanged(Position);
+    expect(entity.getVersion(Position)).toBe(3);
+  });
+
+  it(`Expected that marking absent component as changed does nothing`, () => {
+    const entity = new Entity();
+    let changed = 0;
+    entity.onComponentChanged.connect(() => changed++);
+    entity.markChanged(Position);
+    expect(entity.getVersion(Position)).toBe(0);
+    expect(changed).toBe(0);
+  });
+
+  it(`Expected that marking component as changed dispatches onComponentChanged`, () => {
+    const position = new Position();
+    const entity = new Entity().add(position);
+    let changedComponent: unknown;
+    entity.onComponentChanged.connect((_, component) => changedComponent = component);
+    entity.markChanged(Position);
+    expect(changedComponent).toBe(position);
+  });
+
+  it(`Expected that added, changed and removed components are tracked by change tick`, () => {
+    const entity = new Entity();
+    const beforeAdding = getChangeTick();
+    entity.add(new Position());
+    expect(entity.isAddedSince(Position, beforeAdding)).toBeTruthy();
+    expect(entity.isChangedSince(Position, beforeAdding)).toBeTruthy();
+
+    const afterAdding = getChangeTick();
+    expect(entity.isAddedSince(Position, afterAdding)).toBeFalsy();
+    expect(entity.isChangedSince(Position, afterAdding)).toBeFalsy();
+    entity.markChanged(Position);
+    expect(entity.isAddedSince(Position, afterAdding)).toBeFalsy();
+    expect(entity.isChangedSince(Position, afterAdding)).toBeTruthy();
+
+    const beforeRemoving = getChangeTick();
+    expect(entity.isRemovedSince(Position, beforeRemoving)).toBeFalsy();
+    entity.remove(Position);
+    expect(entity.isRemovedSince(Position, beforeRemoving)).toBeTruthy();
+    expect(entity.isChangedSince(Position, beforeAdding)).toBeFalsy();
+  });
+
+  it(`Expected that appending and withdrawing linked components are tracked`, () => {
+    const entity = new Entity().append(new Damage());
+    const tick = getChangeTick();
+    entity.append(new Damage());
+    expect(entity.isAddedSince(Damage, tick)).toBeTruthy();
+    entity.withdraw(Damage);
+    expect(entity.isRemovedSince(Damage, tick)).toBeTruthy();
+  });
+
+  it(`Expected that marking component as changed re-validates queries with custom predicates`, () => {
+    const engine = new Engine();
+    const query = new Query((entity) => entity.has(Position) && entity.get(Position)!.x > 0);
+    const entity = new Entity().add(new Position());
+    engine.addQuery(query);
+    engine.addEntity(entity);
+    expect(query.isEmpty).toBeTruthy();
+    entity.get(Position)!.x = 10;
+    entity.markChanged(Position);
+    expect(query.has(entity)).toBeTruthy();
+  });
+});
+
+describe('Query change filters', () => {
+  it(`Expected that 'added' and 'changed' require the component and 'removed' doesn't`, () => {
+    const builder = new QueryBuilder().added(Position).changed(View).removed(Selection);
+    expect(builder.getComponents().size).toBe(2);
+    const query = builder.build();
+    expect(query.hasChangeFilter).toBeTruthy();
+    expect(new QueryBuilder().contains(Position).build().hasChangeFilter).toBeFalsy();
+  });
+
+  it(`Expected that query without change filters treats every entity as changed`, () => {
+    const query = new QueryBuilder().contains(Position).build();
+    expect(query.isChangedSince(new Entity().add(new Position()), getChangeTick())).toBeTruthy();
+  });
+
+  it(`Expected that iterative system visits only entities with changed components since its last update`, () => {
+    const engine = new Engine();
+    const system = new TestSystem(new QueryBuilder().changed(Position));
+    engine.addSystem(system);
+    const entity1 = new Entity().add(new Position());
+    const entity2 = new Entity().add(new Position());
+    engine.addEntity(entity1).addEntity(entity2);
+
+    engine.update(1);
+    expect(system.updated).toEqual([entity1, entity2]);
+
+    engine.update(1);
+    expect(system.updated).toEqual([]);
+
+    entity2.markChanged(Position);
+    engine.update(1);
+    expect(system.updated).toEqual([entity2]);
+
+    entity1.add(new Position(1, 1));
+    engine.update(1);
+    expect(system.updated).toEqual([entity1]);
+  });
+
+  it(`Expected that iterative system visits only entities with added components since its last update`, () => {
+    const engine = new Engine();
+    const system = new TestSystem(new QueryBuilder().added(Position));
+    engine.addSystem(system);
+    const entity = new Entity().add(new Position());
+    engine.addEntity(entity);
+
+    engine.update(1);
+    expect(system.updated).toEqual([entity]);
+
+    entity.markChanged(Position);
+    engine.update(1);
+    expect(system.updated).toEqual([]);
+  });
+
+  it(`Expected that iterative system visits only entities with removed components since its last update`, () => {
+    const engine = new Engine();
+    const system = new TestSystem(new QueryBuilder().contains(View).removed(Selection));
+    engine.addSystem(system);
+    const entity1 = new Entity().add(new View()).add(new Selection());
+    const entity2 = new Entity().add(new View()).add(new Selection());
+    engine.addEntity(entity1).addEntity(entity2);
+
+    engine.update(1);
+    expect(system.updated).toEqual([]);
+
+    entity1.remove(Selection);
+    engine.update(1);
+    expect(system.updated).toEqual([entity1]);
+
+    engine.update(1);
+    expect(system.updated).toEqual([]);
+  });
+
+  it(`Expected that changes made by the system itself are not visited by it on the next update`, () => {
+    class MarkingSystem extends TestSystem {
+      protected updateEntity(entity: Entity, dt: number) {
+        super.updateEntity(entity, dt);
+        entity.markChanged(Position);
+      }
+    }
+
+    const engine = new Engine();
+    const marking = new MarkingSystem(new QueryBuilder().changed(Position));
+    const observer = new TestSystem(new QueryBuilder().changed(Position));
+    engine.addSystem(marking, 1);
+    engine.addSystem(observer, 2);
+    const entity = new Entity().add(new Position());
+    engine.addEntity(entity);
+
+    engine.update(1);
+    expect(marking.updated).toEqual([entity]);
+    expect(observer.updated).toEqual([entity]);
+
+    engine.update(1);
+    expect(marking.updated).toEqual([]);
+    expect(observer.updated).toEqual([]);
+  });
+});
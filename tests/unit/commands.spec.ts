@@ -0,0 +1,129 @@
+import {CommandBuffer, Engine, Entity, IterativeSystem, QueryBuilder, System} from '../../src';
+
+class Health {
+  public constructor(public value: number = 0) {}
+}
+
+class Explosion {}
+
+class Poison {}
+
+const DEAD = 'dead';
+
+class DeathSystem extends IterativeSystem {
+  public readonly visited: Entity[] = [];
+
+  public constructor() {
+    super(new QueryBuilder().contains(Health));
+  }
+
+  protected updateEntity(entity: Entity): void {
+    this.visited.push(entity);
+    if (entity.get(Health)!.value <= 0) {
+      this.commands
+        .removeComponent(entity, Health)
+        .addTag(entity, DEAD)
+        .createEntity(new Entity().add(new Explosion()));
+    }
+  }
+}
+
+class ExplosionSystem extends IterativeSystem {
+  public readonly visited: Entity[] = [];
+
+  public constructor() {
+    super(new QueryBuilder().contains(Explosion));
+  }
+
+  protected updateEntity(entity: Entity): void {
+    this.visited.push(entity);
+    this.commands.destroyEntity(entity);
+  }
+}
+
+describe('Command buffer', () => {
+  it('Structural changes recorded during iteration are played back after the update', () => {
+    const engine = new Engine();
+    const entities = [new Entity().add(new Health(0)), new Entity().add(new Health(5)), new Entity().add(new Health(-1))];
+    entities.forEach(entity => engine.addEntity(entity));
+    const deathSystem = new DeathSystem();
+    const explosionSystem = new ExplosionSystem();
+    engine.addSystem(deathSystem, 0);
+    engine.addSystem(explosionSystem, 1);
+
+    engine.update(1);
+    expect(deathSystem.visited).toEqual(entities);
+    expect(explosionSystem.visited).toHaveLength(0);
+    expect(entities[0].has(Health)).toBeFalsy();
+    expect(entities[0].has(DEAD)).toBeTruthy();
+    expect(entities[1].has(DEAD)).toBeFalsy();
+    expect(entities[2].has(DEAD)).toBeTruthy();
+    expect(engine.entities.filter(entity => entity.has(Explosion))).toHaveLength(2);
+    expect(engine.commands.isEmpty).toBeTruthy();
+
+    engine.update(1);
+    expect(explosionSystem.visited).toHaveLength(2);
+    expect(engine.entities).toEqual(entities);
+  });
+
+  it('Commands are played back after every system with "system" sync point', () => {
+    const engine = new Engine({syncPoint: 'system'});
+    engine.addEntity(new Entity().add(new Health(0)));
+    const explosionSystem = new ExplosionSystem();
+    engine.addSystem(new DeathSystem(), 0);
+    engine.addSystem(explosionSystem, 1);
+
+    engine.update(1);
+    expect(engine.syncPoint).toBe('system');
+    expect(explosionSystem.visited).toHaveLength(1);
+    expect(engine.entities).toHaveLength(1);
+  });
+
+  it('Commands are played back in the recording order, including commands recorded during playback', () => {
+    const engine = new Engine();
+    const entity = new Entity();
+    const buffer = new CommandBuffer();
+    entity.onComponentAdded.connect((_, component) => {
+      if (component === DEAD) {
+        buffer.addComponent(entity, new Explosion());
+      }
+    });
+    buffer
+      .createEntity(entity)
+      .addComponent(entity, new Poison())
+      .removeComponent(entity, Poison)
+      .addTag(entity, DEAD);
+    expect(buffer.length).toBe(4);
+    expect(engine.entities).toHaveLength(0);
+
+    buffer.playback(engine);
+    expect(buffer.isEmpty).toBeTruthy();
+    expect(engine.entities).toEqual([entity]);
+    expect(entity.has(Poison)).toBeFalsy();
+    expect(entity.has(Explosion)).toBeTruthy();
+
+    buffer.removeTag(entity, DEAD).destroyEntity(entity);
+    buffer.clear();
+    buffer.playback(engine);
+    expect(entity.has(DEAD)).toBeTruthy();
+    expect(engine.entities).toEqual([entity]);
+  });
+
+  it('Commands can be flushed manually', () => {
+    const engine = new Engine();
+    const entity = new Entity();
+    engine.commands.createEntity(entity);
+    engine.flushCommands();
+    expect(engine.entities).toEqual([entity]);
+  });
+
+  it('Accessing commands of the system not added to the engine throws', () => {
+    class CommandsSystem extends System {
+      public update() {
+        this.commands.createEntity(new Entity());
+      }
+    }
+
+    expect(() => new CommandsSystem().update()).toThrowError();
+  });
+});
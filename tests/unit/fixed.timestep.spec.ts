@@ -0,0 +1,107 @@
+import {Engine, System} from '../../src';
+
+class LogSystem extends System {
+  public constructor(private readonly log: string[], private readonly name: string) {
+    super();
+  }
+
+  public update(dt: number) {
+    this.log.push(`${this.name}:${dt}`);
+  }
+}
+
+class PhysicsSystem extends LogSystem {
+  public readonly updateLoop = 'fixed';
+}
+
+class AlphaSystem extends System {
+  public readonly alphas: number[] = [];
+
+  public update() {
+    this.alphas.push(this.engine.interpolationAlpha);
+  }
+}
+
+describe('Fixed timestep', () => {
+  it('Fixed systems are updated with the fixed step as many times as accumulated time allows', () => {
+    const log: string[] = [];
+    const engine = new Engine({fixedTimeStep: 0.25});
+    const alphaSystem = new AlphaSystem();
+    engine.addSystem(new LogSystem(log, 'input'), 0, 'input');
+    engine.addSystem(new PhysicsSystem(log, 'physics'), 0);
+    engine.addSystem(new LogSystem(log, 'render'), 0, 'render');
+    engine.addSystem(alphaSystem, 1, 'render');
+
+    engine.update(0.125);
+    expect(log).toEqual(['input:0.125', 'render:0.125']);
+
+    log.length = 0;
+    engine.update(0.5);
+    expect(log).toEqual(['input:0.5', 'physics:0.25', 'physics:0.25', 'render:0.5']);
+    expect(alphaSystem.alphas).toEqual([0.5, 0.5]);
+  });
+
+  it('Fixed systems are updated together at the place of the first fixed system', () => {
+    const log: string[] = [];
+    const engine = new Engine({fixedTimeStep: 0.5});
+    engine.addSystem(new PhysicsSystem(log, 'physics1'), 0);
+    engine.addSystem(new LogSystem(log, 'variable'), 1);
+    engine.addSystem(new PhysicsSystem(log, 'physics2'), 2);
+
+    engine.update(1);
+    expect(log).toEqual(['physics1:0.5', 'physics2:0.5', 'physics1:0.5', 'physics2:0.5', 'variable:1']);
+  });
+
+  it('Fixed systems of different phases are updated in the order of phases', () => {
+    const log: string[] = [];
+    const engine = new Engine({fixedTimeStep: 0.5});
+    engine.addSystem(new PhysicsSystem(log, 'physics'), 0, 'update');
+    engine.addSystem(new LogSystem(log, 'variable'), 0, 'postUpdate');
+    engine.addSystem(new PhysicsSystem(log, 'camera'), 0, 'render');
+    engine.addSystem(new LogSystem(log, 'render'), 1, 'render');
+
+    engine.update(1);
+    expect(log).toEqual([
+      'physics:0.5', 'physics:0.5', 'variable:1', 'camera:0.5', 'camera:0.5', 'render:1',
+    ]);
+  });
+
+  it('Number of fixed steps is capped and the excess time is dropped', () => {
+    const log: string[] = [];
+    const engine = new Engine({fixedTimeStep: 0.25, maxFixedSteps: 3});
+    engine.addSystem(new PhysicsSystem(log, 'physics'));
+
+    engine.update(10.125);
+    expect(log).toHaveLength(3);
+    expect(engine.interpolationAlpha).toBe(0.5);
+
+    log.length = 0;
+    engine.update(0.125);
+    expect(log).toHaveLength(1);
+    expect(engine.interpolationAlpha).toBe(0);
+  });
+
+  it('Fixed time is not accumulated while the engine is paused', () => {
+    const log: string[] = [];
+    const engine = new Engine({fixedTimeStep: 0.25, maxFixedSteps: 3});
+    engine.addSystem(new PhysicsSystem(log, 'physics'));
+
+    engine.update(0.125);
+    engine.paused = true;
+    engine.update(10);
+    expect(log).toHaveLength(0);
+    expect(engine.interpolationAlpha).toBe(0.5);
+
+    engine.paused = false;
+    engine.update(0.125);
+    expect(log).toEqual(['physics:0.25']);
+    expect(engine.interpolationAlpha).toBe(0);
+  });
+
+  it('Invalid options throw errors', () => {
+    expect(() => new Engine({fixedTimeStep: 0})).toThrowError('Fixed time step should be greater than zero');
+    expect(() => new Engine({maxFixedSteps: 0})).toThrowError('Maximum number of fixed steps should be at least 1');
+    expect(new Engine().fixedTimeStep).toBe(1 / 60);
+    expect(new Engine().maxFixedSteps).toBe(5);
+  });
+});
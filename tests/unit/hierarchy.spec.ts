@@ -0,0 +1,169 @@
+import {Engine, Entity, QueryBuilder} from '../../src';
+
+class Hero {}
+
+class Weapon {}
+
+describe('Entity hierarchy', () => {
+  it('Setting parent updates children of parents', () => {
+    const parent1 = new Entity();
+    const parent2 = new Entity();
+    const child = new Entity();
+
+    child.setParent(parent1);
+    expect(child.parent).toBe(parent1);
+    expect(parent1.children).toEqual([child]);
+
+    child.setParent(parent2);
+    expect(child.parent).toBe(parent2);
+    expect(parent1.children).toEqual([]);
+    expect(parent2.children).toEqual([child]);
+
+    child.setParent(undefined);
+    expect(child.parent).toBeUndefined();
+    expect(parent2.children).toEqual([]);
+  });
+
+  it('Setting parent dispatches signals', () => {
+    const parent = new Entity();
+    const child = new Entity();
+    const childAdded = jest.fn();
+    const childRemoved = jest.fn();
+    const parentChanged = jest.fn();
+    parent.onChildAdded.connect(childAdded);
+    parent.onChildRemoved.connect(childRemoved);
+    child.onParentChanged.connect(parentChanged);
+
+    child.setParent(parent);
+    expect(childAdded).toHaveBeenCalledWith(parent, child);
+    expect(parentChanged).toHaveBeenCalledWith(child, undefined);
+
+    child.setParent(undefined);
+    expect(childRemoved).toHaveBeenCalledWith(parent, child);
+    expect(parentChanged).toHaveBeenLastCalledWith(child, parent);
+  });
+
+  it('Setting the same parent does nothing', () => {
+    const parent = new Entity();
+    const child = new Entity();
+    child.setParent(parent);
+    const parentChanged = jest.fn();
+    child.onParentChanged.connect(parentChanged);
+
+    child.setParent(parent);
+    expect(parentChanged).not.toHaveBeenCalled();
+    expect(parent.children).toEqual([child]);
+  });
+
+  it('Entity cannot be a child of itself or of its descendants', () => {
+    const root = new Entity();
+    const child = new Entity().setParent(root);
+    const grandChild = new Entity().setParent(child);
+
+    expect(() => root.setParent(root)).toThrowError();
+    expect(() => root.setParent(grandChild)).toThrowError();
+    expect(root.parent).toBeUndefined();
+  });
+
+  it('Removing entity from engine removes its descendants', () => {
+    const engine = new Engine();
+    const root = new Entity();
+    const child = new Entity().setParent(root);
+    const grandChild = new Entity().setParent(child);
+    engine.addEntity(root);
+    engine.addEntity(child);
+    engine.addEntity(grandChild);
+
+    engine.removeEntity(root);
+    expect(engine.entities.length).toBe(0);
+    expect(child.parent).toBe(root);
+    expect(grandChild.parent).toBe(child);
+  });
+
+  it('Removing entity removes all its children, even if removal handlers change the hierarchy', () => {
+    const engine = new Engine();
+    const root = new Entity();
+    const children = [new Entity(), new Entity(), new Entity(), new Entity()];
+    engine.addEntity(root);
+    for (const child of children) {
+      engine.addEntity(child.setParent(root));
+    }
+    engine.onEntityRemoved.connect((entity) => {
+      entity.setParent(undefined);
+      if (entity === children[1]) {
+        children[3].setParent(undefined);
+      }
+    });
+
+    engine.removeEntity(root);
+    expect(engine.entities).toEqual([children[3]]);
+    expect(root.children).toEqual([]);
+  });
+
+  it('Safely removing entity from engine removes its descendants after update', () => {
+    const engine = new Engine();
+    const root = new Entity();
+    const child = new Entity().setParent(root);
+    engine.addEntity(root);
+    engine.addEntity(child);
+
+    engine.removeEntity(root, true);
+    expect(engine.getEntityById(child.id)).toBeUndefined();
+    engine.update(1);
+    expect(engine.entities.length).toBe(0);
+  });
+});
+
+describe('Hierarchy queries', () => {
+  it('childOf matches children of the parent', () => {
+    const engine = new Engine();
+    const hero = new Entity();
+    const weapon = new Entity().add(new Weapon());
+    engine.addEntity(hero);
+    engine.addEntity(weapon);
+    const query = new QueryBuilder().contains(Weapon).childOf(hero).build();
+    engine.addQuery(query);
+    expect(query.length).toBe(0);
+
+    weapon.setParent(hero);
+    expect(query.has(weapon)).toBeTruthy();
+
+    weapon.setParent(undefined);
+    expect(query.has(weapon)).toBeFalsy();
+  });
+
+  it('withParent matches entities which parent has components', () => {
+    const engine = new Engine();
+    const hero = new Entity();
+    const weapon = new Entity().add(new Weapon()).setParent(hero);
+    engine.addEntity(hero);
+    engine.addEntity(weapon);
+    const query = new QueryBuilder().contains(Weapon).withParent(Hero).build();
+    engine.addQuery(query);
+    expect(query.length).toBe(0);
+
+    hero.add(new Hero());
+    expect(query.has(weapon)).toBeTruthy();
+
+    hero.remove(Hero);
+    expect(query.has(weapon)).toBeFalsy();
+
+    hero.add(new Hero());
+    weapon.setParent(new Entity());
+    expect(query.has(weapon)).toBeFalsy();
+  });
+
+  it('withParent works in archetype storage mode', () => {
+    const engine = new Engine({storage: 'archetype'});
+    const hero = new Entity().add(new Hero());
+    const weapon = new Entity().add(new Weapon());
+    engine.addEntity(hero);
+    engine.addEntity(weapon);
+    const query = new QueryBuilder().contains(Weapon).withParent(Hero).build();
+    engine.addQuery(query);
+    expect(query.length).toBe(0);
+
+    weapon.setParent(hero);
+    expect(query.has(weapon)).toBeTruthy();
+  });
+});
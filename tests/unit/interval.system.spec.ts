@@ -0,0 +1,231 @@
+import {
+  Engine,
+  Entity,
+  IntervalIterativeOptions,
+  IntervalIterativeSystem,
+  IntervalOptions,
+  IntervalSystem,
+  QueryBuilder,
+} from '../../src';
+
+class Brain {}
+
+class LogIntervalSystem extends IntervalSystem {
+  public readonly log: number[] = [];
+
+  public constructor(options: IntervalOptions) {
+    super(options);
+  }
+
+  protected updateInterval(dt: number): void {
+    this.log.push(dt);
+  }
+}
+
+class ChangeIntervalSystem extends IntervalSystem {
+  public readonly changes: boolean[] = [];
+
+  public constructor(private readonly entity: Entity, options: IntervalOptions) {
+    super(options);
+  }
+
+  protected updateInterval(): void {
+    this.changes.push(this.entity.isChangedSince(Brain, this.lastRunTick));
+  }
+}
+
+class AiSystem extends IntervalIterativeSystem {
+  public readonly log: Array<[number, number]> = [];
+
+  public constructor(options: IntervalIterativeOptions, changed: boolean = false) {
+    super(changed ? new QueryBuilder().contains(Brain).changed(Brain) : new QueryBuilder().contains(Brain), options);
+  }
+
+  protected updateEntity(entity: Entity, dt: number): void {
+    this.log.push([entity.id, dt]);
+  }
+}
+
+function update(engine: Engine, dt: number, times: number) {
+  for (let i = 0; i < times; i++) {
+    engine.update(dt);
+  }
+}
+
+describe('Interval systems', () => {
+  it('System runs at the interval with the accumulated time', () => {
+    const engine = new Engine();
+    const system = new LogIntervalSystem({interval: 0.5});
+    engine.addSystem(system);
+    update(engine, 0.125, 3);
+    expect(system.log).toEqual([]);
+    update(engine, 0.125, 4);
+    expect(system.log).toEqual([0.5]);
+  });
+
+  it('Skip policy runs once with the whole accumulated time, catch-up policy runs once per interval', () => {
+    const engine = new Engine();
+    const skipping = new LogIntervalSystem({interval: 0.5});
+    const catchingUp = new LogIntervalSystem({interval: 0.5, policy: 'catchUp'});
+    engine.addSystem(skipping);
+    engine.addSystem(catchingUp);
+    engine.update(1.25);
+    expect(skipping.log).toEqual([1.25]);
+    expect(catchingUp.log).toEqual([0.5, 0.5]);
+    engine.update(0.25);
+    expect(skipping.log).toEqual([1.25, 0.25]);
+    expect(catchingUp.log).toEqual([0.5, 0.5, 0.5]);
+  });
+
+  it('Skip policy keeps the time left over from the passed intervals', () => {
+    const engine = new Engine();
+    const system = new LogIntervalSystem({interval: 0.5});
+    engine.addSystem(system);
+    update(engine, 0.375, 4);
+    expect(system.log).toEqual([0.75, 0.375, 0.375]);
+  });
+
+  it('Last run tick is updated only when the interval runs', () => {
+    const engine = new Engine();
+    const entity = new Entity().add(new Brain());
+    engine.addEntity(entity);
+    const system = new ChangeIntervalSystem(entity, {frames: 2});
+    engine.addSystem(system);
+    update(engine, 1, 2);
+    expect(system.changes).toEqual([true]);
+
+    const lastRunTick = system.lastRunTick;
+    entity.markChanged(Brain);
+    engine.update(1);
+    expect(system.lastRunTick).toBe(lastRunTick);
+    engine.update(1);
+    expect(system.changes).toEqual([true, true]);
+    update(engine, 1, 2);
+    expect(system.changes).toEqual([true, true, false]);
+  });
+
+  it('System runs every N frames', () => {
+    const engine = new Engine();
+    const system = new LogIntervalSystem({frames: 3});
+    engine.addSystem(system);
+    update(engine, 0.25, 7);
+    expect(system.log).toEqual([0.75, 0.75]);
+  });
+
+  it('Invalid options throw errors', () => {
+    expect(() => new LogIntervalSystem({})).toThrowError('Either interval or frames should be specified');
+    expect(() => new LogIntervalSystem({interval: 1, frames: 1})).toThrowError('Either interval or frames should be specified');
+    expect(() => new LogIntervalSystem({interval: 0})).toThrowError('Interval should be greater than zero');
+    expect(() => new LogIntervalSystem({frames: 0})).toThrowError('Number of frames should be at least 1');
+    expect(() => new AiSystem({frames: 1, slices: 0})).toThrowError('Number of slices should be a positive integer');
+  });
+
+  it('Iterative system iterates entities at the interval', () => {
+    const engine = new Engine();
+    const system = new AiSystem({interval: 0.5});
+    engine.addSystem(system);
+    const entities = [new Entity().add(new Brain()), new Entity().add(new Brain())];
+    entities.forEach(entity => engine.addEntity(entity));
+    update(engine, 0.25, 4);
+    expect(system.log).toEqual([
+      [entities[0].id, 0.5], [entities[1].id, 0.5],
+      [entities[0].id, 0.5], [entities[1].id, 0.5],
+    ]);
+  });
+
+  it('Iterative system spreads entities across frames in round-robin slices', () => {
+    const engine = new Engine();
+    const system = new AiSystem({frames: 4, slices: 2});
+    engine.addSystem(system);
+    const entities = [1, 2, 3, 4, 5].map(() => new Entity().add(new Brain()));
+    entities.forEach(entity => engine.addEntity(entity));
+
+    update(engine, 0.25, 2);
+    expect(system.log.map(([id]) => id)).toEqual([entities[0].id, entities[2].id, entities[4].id]);
+    expect(system.log.every(([, dt]) => dt === 0.5)).toBeTruthy();
+
+    system.log.length = 0;
+    update(engine, 0.25, 2);
+    expect(system.log.map(([id]) => id)).toEqual([entities[1].id, entities[3].id]);
+    expect(system.log.every(([, dt]) => dt === 1)).toBeTruthy();
+
+    system.log.length = 0;
+    update(engine, 0.25, 2);
+    expect(system.log.every(([, dt]) => dt === 1)).toBeTruthy();
+  });
+
+  it('Every slice, which part of the interval passed, is updated in the same frame', () => {
+    const engine = new Engine();
+    const framesSystem = new AiSystem({frames: 2, slices: 4});
+    const intervalSystem = new AiSystem({interval: 0.25, slices: 4});
+    engine.addSystem(framesSystem);
+    engine.addSystem(intervalSystem);
+    const entities = [1, 2, 3, 4].map(() => new Entity().add(new Brain()));
+    entities.forEach(entity => engine.addEntity(entity));
+
+    update(engine, 0.125, 16);
+    for (const entity of entities) {
+      const visits = framesSystem.log.filter(([id]) => id === entity.id);
+      expect(visits.length).toBe(8);
+      expect(visits.slice(1).every(([, dt]) => dt === 0.25)).toBeTruthy();
+    }
+
+    update(engine, 0.1, 16);
+    for (const entity of entities) {
+      const visits = intervalSystem.log.filter(([id]) => id === entity.id).slice(8);
+      expect(visits.length).toBeGreaterThanOrEqual(6);
+      expect(visits.length).toBeLessThanOrEqual(7);
+      expect(visits.every(([, dt]) => dt > 0.15 && dt < 0.35)).toBeTruthy();
+    }
+  });
+
+  it('Skip policy updates every slice at most once per frame', () => {
+    const engine = new Engine();
+    const skipping = new AiSystem({interval: 1, slices: 2});
+    const catchingUp = new AiSystem({interval: 1, slices: 2, policy: 'catchUp'});
+    engine.addSystem(skipping);
+    engine.addSystem(catchingUp);
+    const entities = [new Entity().add(new Brain()), new Entity().add(new Brain())];
+    entities.forEach(entity => engine.addEntity(entity));
+
+    engine.update(2.5);
+    expect(skipping.log).toEqual([[entities[0].id, 2.5], [entities[1].id, 2.5]]);
+    expect(catchingUp.log).toEqual([
+      [entities[0].id, 1], [entities[1].id, 1], [entities[0].id, 1], [entities[1].id, 1], [entities[0].id, 1],
+    ]);
+    engine.update(0.5);
+    expect(skipping.log[2]).toEqual([entities[0].id, 0.5]);
+    expect(catchingUp.log[5]).toEqual([entities[1].id, 1]);
+  });
+
+  it('Every slice tracks changes since its own previous update', () => {
+    const engine = new Engine();
+    const system = new AiSystem({frames: 2, slices: 2}, true);
+    engine.addSystem(system);
+    const entities = [new Entity().add(new Brain()), new Entity().add(new Brain())];
+    entities.forEach(entity => engine.addEntity(entity));
+
+    update(engine, 1, 2);
+    expect(system.log.map(([id]) => id)).toEqual([entities[0].id, entities[1].id]);
+
+    system.log.length = 0;
+    engine.update(1);
+    entities.forEach(entity => entity.markChanged(Brain));
+    update(engine, 1, 3);
+    expect(system.log.map(([id]) => id)).toEqual([entities[1].id, entities[0].id]);
+  });
+
+  it('Interval state is saved with the engine state', () => {
+    const engine = new Engine();
+    const system = new LogIntervalSystem({interval: 1});
+    engine.addSystem(system);
+    engine.update(0.5);
+    const state = engine.saveState();
+    engine.update(0.25);
+    engine.restoreState(state);
+    engine.update(0.25);
+    expect(system.log).toEqual([]);
+    engine.update(0.25);
+    expect(system.log).toEqual([1]);
+  });
+});
@@ -0,0 +1,124 @@
+import {Engine, Entity, IterativeSystem, IterativeSystemOptions, QueryBuilder} from '../../src';
+
+class Brain {}
+
+class AiSystem extends IterativeSystem {
+  public readonly log: Array<[Entity, number]> = [];
+
+  public constructor(options: IterativeSystemOptions, changed: boolean = false) {
+    super(changed ? new QueryBuilder().contains(Brain).changed(Brain) : new QueryBuilder().contains(Brain), options);
+  }
+
+  protected updateEntity(entity: Entity, dt: number): void {
+    this.log.push([entity, dt]);
+  }
+}
+
+function createEntities(engine: Engine, count: number): Entity[] {
+  const entities: Entity[] = [];
+  for (let i = 0; i < count; i++) {
+    const entity = new Entity().add(new Brain());
+    engine.addEntity(entity);
+    entities.push(entity);
+  }
+  return entities;
+}
+
+function expectTimeBudget() {
+  const engine = new Engine();
+  const system = new AiSystem({budget: {milliseconds: 3}});
+  engine.addSystem(system);
+  createEntities(engine, 7);
+  engine.update(1);
+  expect(system.log).toHaveLength(3);
+  engine.update(1);
+  engine.update(1);
+  expect(system.log).toHaveLength(7);
+  expect(system.lastSweepPasses).toBe(3);
+}
+
+describe('Budgeted iterative system', () => {
+  it('System resumes the sweep from where it stopped and reports number of passes', () => {
+    const engine = new Engine();
+    const system = new AiSystem({budget: {entities: 2}});
+    engine.addSystem(system);
+    const entities = createEntities(engine, 5);
+
+    engine.update(1);
+    expect(system.log.map(([entity]) => entity)).toEqual(entities.slice(0, 2));
+    expect(system.lastSweepPasses).toBe(0);
+    engine.update(1);
+    engine.update(1);
+    expect(system.log.map(([entity]) => entity)).toEqual(entities);
+    expect(system.lastSweepPasses).toBe(3);
+
+    system.log.length = 0;
+    engine.update(1);
+    expect(system.log).toEqual([[entities[0], 3], [entities[1], 3]]);
+  });
+
+  it('Entities added during the sweep are updated within it, removed ones are skipped', () => {
+    const engine = new Engine();
+    const system = new AiSystem({budget: {entities: 2}});
+    engine.addSystem(system);
+    const entities = createEntities(engine, 4);
+
+    engine.update(1);
+    engine.removeEntity(entities[2]);
+    engine.removeEntity(entities[0]);
+    engine.addEntity(entities[0]);
+    const [added] = createEntities(engine, 1);
+    engine.update(1);
+    expect(system.log).toEqual([
+      [entities[0], 1],
+      [entities[1], 1],
+      [entities[3], 1],
+      [added, 1],
+    ]);
+    expect(system.lastSweepPasses).toBe(2);
+  });
+
+  it('Time budget limits the time spent on the update', () => {
+    let now = 0;
+    const spy = jest.spyOn(performance, 'now').mockImplementation(() => now++);
+    try {
+      expectTimeBudget();
+    } finally {
+      spy.mockRestore();
+    }
+  });
+
+  it('Time budget falls back to Date.now when performance is not available', () => {
+    let now = 0;
+    const spy = jest.spyOn(Date, 'now').mockImplementation(() => now++);
+    const descriptor = Object.getOwnPropertyDescriptor(globalThis, 'performance')!;
+    Object.defineProperty(globalThis, 'performance', {value: undefined, configurable: true});
+    try {
+      expectTimeBudget();
+    } finally {
+      Object.defineProperty(globalThis, 'performance', descriptor);
+      spy.mockRestore();
+    }
+  });
+
+  it('Change filter checks changes since the previous sweep', () => {
+    const engine = new Engine();
+    const system = new AiSystem({budget: {entities: 1}}, true);
+    engine.addSystem(system);
+    const entities = createEntities(engine, 2);
+    engine.update(1);
+    engine.update(1);
+    expect(system.log).toHaveLength(2);
+
+    system.log.length = 0;
+    entities[1].markChanged(Brain);
+    engine.update(1);
+    engine.update(1);
+    expect(system.log).toEqual([[entities[1], 1]]);
+  });
+
+  it('Invalid budget throws errors', () => {
+    expect(() => new AiSystem({budget: {}})).toThrowError('Budget of the iterative system should limit entities or milliseconds');
+    expect(() => new AiSystem({budget: {entities: 0}})).toThrowError('Budget limits of the iterative system should be positive');
+  });
+});
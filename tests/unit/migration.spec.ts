@@ -0,0 +1,130 @@
+import {ComponentRegistry, Engine, Entity, SerializedEngine} from '../../src';
+
+class Position {
+  public constructor(public x: number = 0, public y: number = 0) {}
+}
+
+class Velocity {
+  public constructor(public x: number = 0, public y: number = 0) {}
+}
+
+const DEPRECATED = 'deprecated';
+const HERO = 'hero';
+
+function createDocument(): SerializedEngine {
+  return {
+    entities: [
+      {
+        id: 1,
+        components: [{type: 'position', data: {posX: 1, posY: 2, velX: 3, velY: 4}}],
+        tags: [HERO, DEPRECATED],
+      },
+    ],
+    sharedConfig: {id: 0, components: [], tags: [DEPRECATED]},
+  };
+}
+
+describe('Serialization migrations', () => {
+  it('Serialized document and components carry their versions', () => {
+    const registry = new ComponentRegistry(3)
+      .register('position', Position, {version: 2})
+      .register('velocity', Velocity);
+    const engine = new Engine();
+    engine.addEntity(new Entity().add(new Position()).add(new Velocity()));
+
+    const document = engine.serialize(registry);
+    expect(document.version).toBe(3);
+    expect(document.entities[0].components[0].version).toBe(2);
+    expect(document.entities[0].components[1].version).toBeUndefined();
+  });
+
+  it('Document migrations are applied sequentially', () => {
+    const calls: number[] = [];
+    const registry = new ComponentRegistry(2)
+      .register('position', Position)
+      .addMigration(1, (document) => {
+        calls.push(1);
+        return document;
+      })
+      .addMigration(0, (document) => {
+        calls.push(0);
+        document.entities.forEach(entity => entity.tags = entity.tags.filter(tag => tag !== DEPRECATED));
+        document.sharedConfig.tags = [];
+        return document;
+      })
+      .addComponentMigration('position', 0, (component) => {
+        const data = component.data as {posX: number, posY: number};
+        return {type: 'position', data: {x: data.posX, y: data.posY}};
+      });
+    const engine = new Engine();
+
+    const [entity] = engine.deserialize(createDocument(), registry);
+    expect(calls).toEqual([0, 1]);
+    expect(entity.has(HERO)).toBeTruthy();
+    expect(entity.has(DEPRECATED)).toBeFalsy();
+    expect(engine.sharedConfig.has(DEPRECATED)).toBeFalsy();
+  });
+
+  it('Component migrations rename fields and split components', () => {
+    const registry = new ComponentRegistry()
+      .register('position', Position, {version: 2})
+      .register('velocity', Velocity)
+      .addComponentMigration('position', 0, (component) => {
+        const data = component.data as {posX: number, posY: number, velX: number, velY: number};
+        return {type: 'position', data: {x: data.posX, y: data.posY, velX: data.velX, velY: data.velY}};
+      })
+      .addComponentMigration('position', 1, (component) => {
+        const data = component.data as {x: number, y: number, velX: number, velY: number};
+        return [
+          {type: 'position', data: {x: data.x, y: data.y}},
+          {type: 'velocity', data: {x: data.velX, y: data.velY}},
+        ];
+      });
+    const engine = new Engine();
+
+    const [entity] = engine.deserialize(createDocument(), registry);
+    expect(entity.get(Position)).toEqual(new Position(1, 2));
+    expect(entity.get(Velocity)).toEqual(new Velocity(3, 4));
+  });
+
+  it('Component migration can drop the component', () => {
+    const registry = new ComponentRegistry()
+      .register('position', Position, {version: 1})
+      .addComponentMigration('position', 0, () => []);
+    const engine = new Engine();
+
+    const [entity] = engine.deserialize(createDocument(), registry);
+    expect(entity.has(Position)).toBeFalsy();
+  });
+
+  it('Missing migrations throw descriptive errors', () => {
+    const engine = new Engine();
+    expect(() => engine.deserialize(createDocument(), new ComponentRegistry(2)
+      .register('position', Position)
+      .addMigration(0, document => document),
+    )).toThrowError('Migration of the document from version 1 to 2 is not added');
+    expect(() => engine.deserialize(createDocument(), new ComponentRegistry()
+      .register('position', Position, {version: 3})
+      .addComponentMigration('position', 0, component => component),
+    )).toThrowError('Migration of component "position" from version 1 to 2 is not added');
+  });
+
+  it('Documents and components of newer versions are rejected', () => {
+    const engine = new Engine();
+    const document = createDocument();
+    document.version = 2;
+    expect(() => engine.deserialize(document, new ComponentRegistry(1).register('position', Position)))
+      .toThrowError('Document version 2 is newer than the registry version 1');
+    document.version = 1;
+    document.entities[0].components[0].version = 1;
+    expect(() => engine.deserialize(document, new ComponentRegistry(1).register('position', Position)))
+      .toThrowError('Component "position" version 1 is newer than the registered version 0');
+  });
+
+  it('Adding the same migration twice throws an error', () => {
+    const registry = new ComponentRegistry(1).addMigration(0, document => document);
+    expect(() => registry.addMigration(0, document => document)).toThrowError();
+    registry.addComponentMigration('position', 0, component => component);
+    expect(() => registry.addComponentMigration('position', 0, component => component)).toThrowError();
+  });
+});
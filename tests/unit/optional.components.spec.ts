@@ -0,0 +1,83 @@
+import {Engine, Entity, EntitySnapshot, QueryBuilder, ReactionSystem} from '../../src';
+
+class Position {
+  public constructor(public x: number = 0) {}
+}
+
+class Velocity {
+  public constructor(public x: number = 0) {}
+}
+
+class Friction {
+  public constructor(public value: number = 0) {}
+}
+
+class FrictionSystem extends ReactionSystem {
+  public readonly events: string[] = [];
+
+  public constructor() {
+    super(new QueryBuilder().contains(Position, Velocity).optional(Friction));
+  }
+
+  public get entityList(): ReadonlyArray<Entity> {
+    return this.entities;
+  }
+
+  protected entityAdded = ({current}: EntitySnapshot) => {
+    this.events.push(`added ${current.get(Friction)?.value}`);
+  };
+
+  protected entityRemoved = ({current, previous}: EntitySnapshot) => {
+    this.events.push(`removed ${previous.get(Friction)?.value} -> ${current.get(Friction)?.value}`);
+  };
+}
+
+function createEntity(engine: Engine): Entity {
+  const entity = new Entity().add(new Position()).add(new Velocity());
+  engine.addEntity(entity);
+  return entity;
+}
+
+describe('Optional components', () => {
+  it('Optional components don\'t affect matching, and are included in tuples', () => {
+    const engine = new Engine();
+    const query = new QueryBuilder().contains(Position).optional(Friction).contains(Velocity).build();
+    engine.addQuery(query);
+    const entity = createEntity(engine);
+    new Entity().add(new Friction());
+
+    const [, position, friction, velocity] = query.getTuple(entity);
+    const value: number | undefined = friction?.value;
+    expect(query.entities).toEqual([entity]);
+    expect(position).toBe(entity.get(Position));
+    expect(value).toBeUndefined();
+    expect(velocity).toBe(entity.get(Velocity));
+
+    entity.add(new Friction(0.5));
+    expect(query.getTuple(entity)[2]).toBe(entity.get(Friction));
+  });
+
+  for (const storage of ['entity', 'archetype'] as const) {
+    it(`Reaction system is re-notified when optional component appears or disappears in ${storage} storage`, () => {
+      const engine = new Engine({storage});
+      const system = new FrictionSystem();
+      engine.addSystem(system);
+      const first = createEntity(engine);
+      const second = createEntity(engine);
+      const outside = new Entity().add(new Position());
+      engine.addEntity(outside);
+      expect(system.events).toEqual(['added undefined', 'added undefined']);
+      system.events.length = 0;
+
+      first.add(new Friction(0.5));
+      expect(system.events).toEqual(['removed undefined -> 0.5', 'added 0.5']);
+      expect(system.entityList).toEqual([first, second]);
+      system.events.length = 0;
+
+      first.remove(Friction);
+      outside.add(new Friction(0.1));
+      expect(system.events).toEqual(['removed 0.5 -> undefined', 'added undefined']);
+      expect(system.entityList).toEqual([first, second]);
+    });
+  }
+});
@@ -0,0 +1,190 @@
+import {Engine, Entity, Query, QueryBuilder, QueryIndex, RollbackBuffer, UniqueQueryIndex} from '../../src';
+
+class Team {
+  public constructor(public id: number = 0) {}
+}
+
+class Unit {}
+
+class Position {
+  public constructor(public x: number = 0, public y: number = 0) {}
+}
+
+function createUnit(engine: Engine, team: number): Entity {
+  const entity = new Entity().add(new Unit()).add(new Team(team));
+  engine.addEntity(entity);
+  return entity;
+}
+
+function createTile(engine: Engine, x: number, y: number): Entity {
+  const entity = new Entity().add(new Position(x, y));
+  engine.addEntity(entity);
+  return entity;
+}
+
+function createTeamIndex(): QueryIndex<number> {
+  return new QueryIndex(new QueryBuilder().contains(Unit, Team), entity => entity.get(Team)!.id, Team);
+}
+
+function createTileIndex(): UniqueQueryIndex<string> {
+  return new UniqueQueryIndex(
+    new QueryBuilder().contains(Position),
+    entity => `${entity.get(Position)!.x},${entity.get(Position)!.y}`,
+    Position,
+  );
+}
+
+describe('Query index', () => {
+  for (const storage of ['entity', 'archetype'] as const) {
+    it(`Groups entities by key in ${storage} storage`, () => {
+      const engine = new Engine({storage});
+      const first = createUnit(engine, 1);
+      const index = createTeamIndex();
+      engine.addQueryIndex(index);
+      const second = createUnit(engine, 2);
+      const third = createUnit(engine, 1);
+      expect(engine.queries).toContain(index.query);
+      expect(index.get(1)).toEqual([first, third]);
+      expect(index.get(2)).toEqual([second]);
+      expect(index.get(3)).toEqual([]);
+      expect(Array.from(index.keys())).toEqual([1, 2]);
+      expect(index.getKey(second)).toBe(2);
+
+      engine.removeEntity(first);
+      second.remove(Unit);
+      expect(index.get(1)).toEqual([third]);
+      expect(index.has(2)).toBeFalsy();
+      expect(index.getKey(second)).toBeUndefined();
+    });
+  }
+
+  it('Entity takes its new key on key component change, replacement or invalidation', () => {
+    const engine = new Engine();
+    const index = createTeamIndex();
+    engine.addQueryIndex(index);
+    const unit = createUnit(engine, 1);
+
+    unit.get(Team)!.id = 2;
+    expect(index.get(1)).toEqual([unit]);
+    unit.markChanged(Team);
+    expect(index.get(2)).toEqual([unit]);
+    expect(index.has(1)).toBeFalsy();
+
+    unit.add(new Team(3));
+    expect(Array.from(index.keys())).toEqual([3]);
+
+    unit.get(Team)!.id = 4;
+    unit.invalidate();
+    expect(Array.from(index.keys())).toEqual([4]);
+  });
+
+  it('Index is rebuilt when the state of the engine is restored', () => {
+    const engine = new Engine();
+    const index = createTeamIndex();
+    engine.addQueryIndex(index);
+    const rollback = new RollbackBuffer(engine, 2);
+    const unit = createUnit(engine, 1);
+    rollback.save(0);
+    unit.add(new Team(2));
+    createUnit(engine, 2);
+    expect(index.get(2).length).toBe(2);
+    rollback.restore(0);
+    expect(index.get(1)).toEqual([unit]);
+    expect(index.has(2)).toBeFalsy();
+  });
+
+  it('Query added with the index is removed with the last index of it', () => {
+    const engine = new Engine();
+    const index = createTeamIndex();
+    const other = new QueryIndex(index.query, entity => entity.get(Team)!.id % 2);
+    engine.addQueryIndex(index).addQueryIndex(other);
+    createUnit(engine, 1);
+    engine.removeQueryIndex(index);
+    expect(index.has(1)).toBeFalsy();
+    expect(engine.queries).toContain(index.query);
+    engine.removeQueryIndex(other);
+    expect(engine.queries).not.toContain(index.query);
+    expect(engine.queryIndices).toEqual([]);
+  });
+
+  it('Query added by user stays in the engine, and indices are removed with the query', () => {
+    const engine = new Engine();
+    const query = new Query(entity => entity.has(Team));
+    engine.addQuery(query);
+    const index = new QueryIndex(query, entity => entity.get(Team)!.id);
+    engine.addQueryIndex(index);
+    createUnit(engine, 1);
+    expect(index.get(1).length).toBe(1);
+    engine.removeQueryIndex(index);
+    expect(engine.queries).toEqual([query]);
+
+    engine.addQueryIndex(index);
+    expect(index.get(1).length).toBe(1);
+    engine.removeQuery(query);
+    expect(engine.queryIndices).toEqual([]);
+    expect(index.has(1)).toBeFalsy();
+  });
+});
+
+describe('Unique query index', () => {
+  it('Maps keys to entities', () => {
+    const engine = new Engine();
+    const index = createTileIndex();
+    engine.addQueryIndex(index);
+    const tile = createTile(engine, 3, 4);
+    expect(index.get('3,4')).toBe(tile);
+    expect(index.get('4,3')).toBeUndefined();
+
+    tile.get(Position)!.x = 4;
+    tile.get(Position)!.y = 3;
+    tile.markChanged(Position);
+    expect(index.get('4,3')).toBe(tile);
+    expect(index.has('3,4')).toBeFalsy();
+
+    engine.removeEntity(tile);
+    expect(Array.from(index.keys())).toEqual([]);
+  });
+
+  it('Keeps the key with its first owner and reports conflicts', () => {
+    const engine = new Engine();
+    const index = createTileIndex();
+    const first = createTile(engine, 0, 0);
+    const second = createTile(engine, 1, 0);
+    engine.addQueryIndex(index);
+    const conflicts: Array<[string, Entity, Entity]> = [];
+    index.onKeyConflict.connect((key, owner, entity) => conflicts.push([key, owner, entity]));
+    const added = jest.fn();
+    index.query.onEntityAdded.connect(added);
+
+    const third = createTile(engine, 0, 0);
+    expect(conflicts).toEqual([['0,0', first, third]]);
+    expect(engine.entities).toEqual([first, second, third]);
+    expect(index.query.entities).toEqual([first, second, third]);
+    expect(added).toHaveBeenCalledTimes(1);
+    expect(index.get('0,0')).toBe(first);
+    expect(index.getKey(third)).toBe('0,0');
+
+    second.get(Position)!.x = 0;
+    second.markChanged(Position);
+    expect(conflicts).toEqual([['0,0', first, third], ['0,0', first, second]]);
+    expect(index.has('1,0')).toBeFalsy();
+    expect(index.get('0,0')).toBe(first);
+
+    engine.removeEntity(first);
+    expect(index.get('0,0')).toBe(third);
+    engine.removeEntity(third);
+    expect(index.get('0,0')).toBe(second);
+  });
+
+  it('Reports conflicts when it is added to the engine', () => {
+    const engine = new Engine();
+    const first = createTile(engine, 0, 0);
+    const second = createTile(engine, 0, 0);
+    const index = createTileIndex();
+    const conflict = jest.fn();
+    index.onKeyConflict.connect(conflict);
+    engine.addQueryIndex(index);
+    expect(conflict).toHaveBeenCalledWith('0,0', first, second);
+    expect(index.get('0,0')).toBe(first);
+  });
+});
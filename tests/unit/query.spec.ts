@@ -93,6 +93,55 @@ describe('Query builder', () => {
     ]);
     expect(query.length).toBe(2);
   });
+
+  it(`Expected that query built with 'excludes' doesn't match entities with excluded components or tags`, () => {
+    const TAG = 1;
+    const query = new QueryBuilder().contains(Position).excludes(View, TAG).build();
+    query.matchEntities([
+      new Entity().add(new Position()),
+      new Entity().add(new Position()).add(new View()),
+      new Entity().add(new Position()).add(TAG),
+      new Entity().add(new View()),
+    ]);
+    expect(query.length).toBe(1);
+  });
+
+  it(`Expected that query built with 'anyOf' matches entities with at least one of the components or tags`, () => {
+    const TAG = 'tag';
+    const query = new QueryBuilder().contains(Position).anyOf(View, TAG).anyOf(Move).build();
+    query.matchEntities([
+      new Entity().add(new Position()),
+      new Entity().add(new Position()).add(new View()),
+      new Entity().add(new Position()).add(TAG),
+      new Entity().add(new Position()).add(new Move()),
+      new Entity().add(new View()).add(TAG),
+    ]);
+    expect(query.length).toBe(3);
+  });
+
+  it(`Expected that excluded and any-of components and tags are exposed by the builder`, () => {
+    const TAG = 1;
+    const builder = new QueryBuilder()
+      .excludes(View, View, TAG)
+      .anyOf(Move, Stay, TAG);
+    expect(builder.getExcluded().components.size).toBe(1);
+    expect(builder.getExcluded().tags.size).toBe(1);
+    expect(builder.getAnyOf().components.size).toBe(2);
+    expect(builder.getAnyOf().tags.size).toBe(1);
+  });
+
+  it(`Expected that query with excluded components is updated when excluded component is added or removed`, () => {
+    const engine = new Engine();
+    const query = new QueryBuilder().contains(Position).excludes(View).build();
+    const entity = new Entity().add(new Position());
+    engine.addQuery(query);
+    engine.addEntity(entity);
+    expect(query.has(entity)).toBeTruthy();
+    entity.add(new View());
+    expect(query.has(entity)).toBeFalsy();
+    entity.remove(View);
+    expect(query.has(entity)).toBeTruthy();
+  });
 });
 
 describe('Query matching', () => {
@@ -650,3 +699,141 @@ describe('Query signals', () => {
     expect(queryCallIndex).toBe(5);
   });
 });
+
+describe('Query dependencies', () => {
+  it(`Expected that query built with QueryBuilder depends on all components and tags of its clauses`, () => {
+    const TAG1 = 1;
+    const TAG2 = 'tag';
+    const query = new QueryBuilder()
+      .contains(Position, TAG1)
+      .excludes(View)
+      .anyOf(Move, TAG2)
+      .build();
+    const dependencies = query.dependencies!;
+    expect(dependencies).toBeDefined();
+    expect(dependencies.components.size).toBe(3);
+    expect(Array.from(dependencies.tags)).toEqual([TAG1, TAG2]);
+  });
+
+  it(`Expected that query built with predicate has no dependencies`, () => {
+    const query = new Query((entity) => entity.has(Position));
+    expect(query.dependencies).toBeUndefined();
+  });
+
+  it(`Expected that engine notifies query only about changes of its dependencies`, () => {
+    const engine = new Engine();
+    const query = new QueryBuilder().contains(Position).build();
+    const added = jest.spyOn(query, 'entityComponentAdded');
+    const removed = jest.spyOn(query, 'entityComponentRemoved');
+    const entity = new Entity();
+    engine.addQuery(query);
+    engine.addEntity(entity);
+
+    entity.add(new View()).add('tag');
+    entity.remove(View);
+    expect(added).not.toHaveBeenCalled();
+    expect(removed).not.toHaveBeenCalled();
+
+    entity.add(new Position());
+    entity.remove(Position);
+    expect(added).toHaveBeenCalledTimes(1);
+    expect(removed).toHaveBeenCalledTimes(1);
+    expect(query.isEmpty).toBeTruthy();
+  });
+
+  it(`Expected that engine notifies query with predicate about every change`, () => {
+    const engine = new Engine();
+    const query = new Query((entity) => entity.has(Position));
+    const added = jest.spyOn(query, 'entityComponentAdded');
+    const entity = new Entity();
+    engine.addQuery(query);
+    engine.addEntity(entity);
+
+    entity.add(new View()).add('tag').add(new Position());
+    expect(added).toHaveBeenCalledTimes(3);
+    expect(query.length).toBe(1);
+  });
+
+  it(`Expected that removed query is not notified about changes anymore`, () => {
+    const engine = new Engine();
+    const query = new QueryBuilder().contains(Position).build();
+    const added = jest.spyOn(query, 'entityComponentAdded');
+    const entity = new Entity();
+    engine.addQuery(query);
+    engine.addEntity(entity);
+    engine.removeQuery(query);
+
+    entity.add(new Position());
+    expect(added).not.toHaveBeenCalled();
+  });
+
+  it(`Expected that component added with resolve class notifies queries depending on resolve class`, () => {
+    class Child extends Position {}
+
+    const engine = new Engine();
+    const query = new QueryBuilder().contains(Position).build();
+    const entity = new Entity();
+    engine.addQuery(query);
+    engine.addEntity(entity);
+
+    entity.add(new Child(), Position);
+    expect(query.has(entity)).toBeTruthy();
+    entity.remove(Position);
+    expect(query.has(entity)).toBeFalsy();
+  });
+});
+
+describe('Query entities order', () => {
+  function createEntities(amount: number): Entity[] {
+    const entities = [];
+    for (let i = 0; i < amount; i++) {
+      entities.push(new Entity().add(new Position()));
+    }
+    return entities;
+  }
+
+  it(`Expected that removed entity is replaced by the last one by default`, () => {
+    const query = new QueryBuilder().contains(Position).build();
+    const entities = createEntities(5);
+    query.matchEntities(entities);
+    expect(query.preserveOrder).toBeFalsy();
+    query.entityRemoved(entities[1]);
+    expect(query.entities).toEqual([entities[0], entities[4], entities[2], entities[3]]);
+    query.entityRemoved(entities[3]);
+    expect(query.entities).toEqual([entities[0], entities[4], entities[2]]);
+  });
+
+  it(`Expected that query with preserved order keeps the order of entities after removal`, () => {
+    const query = new Query((entity) => entity.has(Position), {preserveOrder: true});
+    const entities = createEntities(5);
+    query.matchEntities(entities);
+    expect(query.preserveOrder).toBeTruthy();
+    query.entityRemoved(entities[1]);
+    query.entityRemoved(entities[3]);
+    expect(query.entities).toEqual([entities[0], entities[2], entities[4]]);
+  });
+
+  it(`Expected that query builder passes options to the query`, () => {
+    const query = new QueryBuilder().contains(Position).build({preserveOrder: true});
+    expect(query.preserveOrder).toBeTruthy();
+  });
+
+  it.each([true, false])(`Expected that membership stays consistent after multiple removals (preserveOrder: %p)`, (preserveOrder) => {
+    const query = new Query((entity) => entity.has(Position), {preserveOrder});
+    const entities = createEntities(10);
+    query.matchEntities(entities);
+    for (let i = 0; i < entities.length; i += 3) {
+      query.entityRemoved(entities[i]);
+    }
+    for (let i = 0; i < entities.length; i++) {
+      expect(query.has(entities[i])).toBe(i % 3 !== 0);
+    }
+    expect(query.length).toBe(6);
+    for (const entity of query.entities.concat()) {
+      query.entityRemoved(entity);
+    }
+    expect(query.isEmpty).toBeTruthy();
+    query.matchEntities(entities);
+    expect(query.length).toBe(entities.length);
+  });
+});
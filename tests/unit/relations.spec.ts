@@ -0,0 +1,173 @@
+import {Engine, Entity, QueryBuilder} from '../../src';
+
+class Targets {}
+
+class OwnedBy {}
+
+class Turret {}
+
+describe('Entity relations', () => {
+  it('Adding relation makes entity a source of the target', () => {
+    const turret = new Entity();
+    const enemy1 = new Entity();
+    const enemy2 = new Entity();
+
+    turret.addRelation(Targets, enemy1).addRelation(Targets, enemy2);
+    expect(turret.hasRelation(Targets)).toBeTruthy();
+    expect(turret.hasRelation(Targets, enemy1)).toBeTruthy();
+    expect(turret.hasRelation(OwnedBy)).toBeFalsy();
+    expect(turret.getRelationTargets(Targets)).toEqual([enemy1, enemy2]);
+    expect(enemy1.isTargetOf(Targets)).toBeTruthy();
+    expect(enemy1.isTargetOf(Targets, turret)).toBeTruthy();
+    expect(enemy1.getRelationSources(Targets)).toEqual([turret]);
+    expect(turret.isTargetOf(Targets)).toBeFalsy();
+  });
+
+  it('Removing relation without target removes relations to all targets', () => {
+    const turret = new Entity();
+    const enemy1 = new Entity();
+    const enemy2 = new Entity();
+    turret.addRelation(Targets, enemy1).addRelation(Targets, enemy2);
+
+    turret.removeRelation(Targets, enemy1);
+    expect(turret.getRelationTargets(Targets)).toEqual([enemy2]);
+    expect(enemy1.isTargetOf(Targets)).toBeFalsy();
+
+    turret.removeRelation(Targets);
+    expect(turret.hasRelation(Targets)).toBeFalsy();
+    expect(enemy2.getRelationSources(Targets)).toEqual([]);
+  });
+
+  it('Relation signals are dispatched once per relation', () => {
+    const turret = new Entity();
+    const enemy = new Entity();
+    const added = jest.fn();
+    const removed = jest.fn();
+    turret.onRelationAdded.connect(added);
+    turret.onRelationRemoved.connect(removed);
+
+    turret.addRelation(Targets, enemy).addRelation(Targets, enemy);
+    expect(added).toHaveBeenCalledTimes(1);
+    expect(added).toHaveBeenCalledWith(turret, Targets, enemy);
+
+    turret.removeRelation(Targets, enemy).removeRelation(Targets, enemy);
+    expect(removed).toHaveBeenCalledTimes(1);
+    expect(removed).toHaveBeenCalledWith(turret, Targets, enemy);
+  });
+
+  it('Removing entity from engine removes its relations and relations to it', () => {
+    const engine = new Engine();
+    const turret = new Entity();
+    const enemy = new Entity();
+    turret.addRelation(Targets, enemy);
+    enemy.addRelation(Targets, turret);
+    engine.addEntity(turret);
+    engine.addEntity(enemy);
+
+    engine.removeEntity(enemy);
+    expect(turret.hasRelation(Targets)).toBeFalsy();
+    expect(enemy.hasRelation(Targets)).toBeFalsy();
+    expect(turret.isTargetOf(Targets)).toBeFalsy();
+  });
+
+  it('Copy of the entity keeps relations it had at the moment of copying', () => {
+    const player = new Entity();
+    const sword = new Entity().addRelation(OwnedBy, player);
+    const copy = new Entity().copyFrom(sword);
+
+    sword.removeRelation(OwnedBy);
+    expect(copy.hasRelation(OwnedBy, player)).toBeTruthy();
+    copy.removeRelation(OwnedBy);
+    expect(player.isTargetOf(OwnedBy)).toBeFalsy();
+    expect(sword.hasRelation(OwnedBy)).toBeFalsy();
+  });
+
+  it('Copying without relations clears relations of the copy', () => {
+    const player = new Entity();
+    const sword = new Entity().addRelation(OwnedBy, player);
+    const copy = new Entity().copyFrom(sword);
+
+    copy.copyFrom(player, false);
+    expect(copy.hasRelation(OwnedBy)).toBeFalsy();
+    copy.copyFrom(player);
+    expect(copy.isTargetOf(OwnedBy, sword)).toBeTruthy();
+  });
+
+  it('Engine returns sources of the relation that are in the engine', () => {
+    const engine = new Engine();
+    const player = new Entity();
+    const sword = new Entity().addRelation(OwnedBy, player);
+    const shield = new Entity().addRelation(OwnedBy, player);
+    engine.addEntity(player);
+    engine.addEntity(sword);
+
+    expect(engine.getRelationSources(OwnedBy, player)).toEqual([sword]);
+    expect(player.getRelationSources(OwnedBy)).toEqual([sword, shield]);
+  });
+});
+
+describe('Relation queries', () => {
+  it('withRelation matches entities with relation to any or specific target', () => {
+    const engine = new Engine();
+    const turret = new Entity().add(new Turret());
+    const enemy1 = new Entity();
+    const enemy2 = new Entity();
+    engine.addEntity(turret);
+    engine.addEntity(enemy1);
+    engine.addEntity(enemy2);
+    const aimingQuery = new QueryBuilder().contains(Turret).withRelation(Targets).build();
+    const aimingAtEnemy2Query = new QueryBuilder().withRelation(Targets, enemy2).build();
+    engine.addQuery(aimingQuery);
+    engine.addQuery(aimingAtEnemy2Query);
+
+    turret.addRelation(Targets, enemy1);
+    expect(aimingQuery.has(turret)).toBeTruthy();
+    expect(aimingAtEnemy2Query.has(turret)).toBeFalsy();
+
+    turret.addRelation(Targets, enemy2);
+    expect(aimingAtEnemy2Query.has(turret)).toBeTruthy();
+
+    engine.removeEntity(enemy2);
+    expect(aimingQuery.has(turret)).toBeTruthy();
+    expect(aimingAtEnemy2Query.has(turret)).toBeFalsy();
+
+    engine.removeEntity(enemy1);
+    expect(aimingQuery.has(turret)).toBeFalsy();
+  });
+
+  it('targetOf matches targets of the relation', () => {
+    const engine = new Engine();
+    const player = new Entity();
+    const sword = new Entity();
+    engine.addEntity(player);
+    engine.addEntity(sword);
+    const ownersQuery = new QueryBuilder().targetOf(OwnedBy).build();
+    engine.addQuery(ownersQuery);
+    expect(ownersQuery.length).toBe(0);
+
+    sword.addRelation(OwnedBy, player);
+    expect(ownersQuery.entities).toEqual([player]);
+
+    engine.removeEntity(sword);
+    expect(player.isTargetOf(OwnedBy)).toBeFalsy();
+    expect(ownersQuery.length).toBe(0);
+
+    engine.addEntity(sword);
+    sword.addRelation(OwnedBy, player);
+    expect(ownersQuery.entities).toEqual([player]);
+    sword.removeRelation(OwnedBy, player);
+    expect(ownersQuery.length).toBe(0);
+  });
+
+  it('Relation queries are updated on component changes', () => {
+    const engine = new Engine({storage: 'archetype'});
+    const turret = new Entity().addRelation(Targets, new Entity());
+    engine.addEntity(turret);
+    const query = new QueryBuilder().contains(Turret).withRelation(Targets).build();
+    engine.addQuery(query);
+    expect(query.length).toBe(0);
+
+    turret.add(new Turret());
+    expect(query.has(turret)).toBeTruthy();
+  });
+});
@@ -0,0 +1,208 @@
+import {
+  ComponentRegistry,
+  Engine,
+  Entity,
+  LinkedComponent,
+  ReplicationClient,
+  ReplicationDelta,
+  ReplicationServer,
+} from '../../src';
+
+class Position {
+  public constructor(public x: number = 0, public y: number = 0) {}
+}
+
+class Health {
+  public constructor(public value: number = 100) {}
+}
+
+class Damage extends LinkedComponent {
+  public constructor(public value: number = 0) {
+    super();
+  }
+}
+
+const HERO = 'hero';
+const STUNNED = 'stunned';
+
+function createRegistry(): ComponentRegistry {
+  return new ComponentRegistry()
+    .register('position', Position)
+    .register('health', Health)
+    .register('damage', Damage);
+}
+
+function send(delta: ReplicationDelta): ReplicationDelta {
+  return JSON.parse(JSON.stringify(delta));
+}
+
+function createWorld() {
+  const registry = createRegistry();
+  const serverEngine = new Engine();
+  const clientEngine = new Engine();
+  const server = new ReplicationServer(serverEngine, registry);
+  const client = new ReplicationClient(clientEngine, registry);
+  server.addClient('client');
+  const sync = () => {
+    server.update();
+    const applied = client.apply(send(server.createDelta('client')));
+    server.acknowledge('client', client.sequence!);
+    return applied;
+  };
+  return {serverEngine, clientEngine, server, client, sync};
+}
+
+describe('Replication', () => {
+  it('First delta contains the full state', () => {
+    const {serverEngine, server} = createWorld();
+    serverEngine.addEntity(new Entity().add(new Position(1, 2)).add(HERO));
+    server.update();
+
+    const delta = server.createDelta('client');
+    expect(delta.baseline).toBeUndefined();
+    expect(delta.created).toEqual([
+      {id: serverEngine.entities[0].id, components: [{type: 'position', data: {x: 1, y: 2}}], tags: [HERO]},
+    ]);
+  });
+
+  it('Deltas contain only changes since the acknowledged state', () => {
+    const {serverEngine, server, sync} = createWorld();
+    const hero = new Entity().add(new Position(1, 2)).add(new Health());
+    const enemy = new Entity().add(new Position());
+    serverEngine.addEntity(hero);
+    serverEngine.addEntity(enemy);
+    sync();
+
+    hero.get(Position)!.x = 5;
+    hero.remove(Health);
+    hero.add(STUNNED);
+    serverEngine.removeEntity(enemy);
+    server.update();
+    const delta = server.createDelta('client');
+    expect(delta.baseline).toBe(1);
+    expect(delta.created).toEqual([]);
+    expect(delta.removed).toEqual([enemy.id]);
+    expect(delta.updated).toEqual([{
+      id: hero.id,
+      changed: [{type: 'position', data: {x: 5, y: 2}}],
+      removed: ['health'],
+      tagsAdded: [STUNNED],
+    }]);
+  });
+
+  it('Client reconstructs the state of the server', () => {
+    const {serverEngine, clientEngine, client, sync} = createWorld();
+    const hero = new Entity().add(new Position(1, 2)).add(HERO);
+    serverEngine.addEntity(hero);
+    expect(sync()).toBeTruthy();
+
+    const clientHero = client.getEntity(hero.id)!;
+    expect(clientEngine.entities).toEqual([clientHero]);
+    expect(clientHero.get(Position)).toEqual(new Position(1, 2));
+    expect(clientHero.has(HERO)).toBeTruthy();
+    expect(client.getServerId(clientHero)).toBe(hero.id);
+
+    hero.get(Position)!.y = 10;
+    hero.add(new Health(50)).remove(HERO);
+    hero.append(new Damage(1)).append(new Damage(2));
+    sync();
+    expect(clientHero.get(Position)).toEqual(new Position(1, 10));
+    expect(clientHero.get(Health)).toEqual(new Health(50));
+    expect(clientHero.has(HERO)).toBeFalsy();
+    expect(Array.from(clientHero.getAll(Damage)).map(value => value.value)).toEqual([1, 2]);
+
+    hero.withdraw(Damage);
+    sync();
+    expect(Array.from(clientHero.getAll(Damage)).map(value => value.value)).toEqual([2]);
+
+    serverEngine.removeEntity(hero);
+    sync();
+    expect(clientEngine.entities.length).toBe(0);
+    expect(client.getEntity(hero.id)).toBeUndefined();
+  });
+
+  it('Client-local entities are not affected by replication', () => {
+    const {serverEngine, clientEngine, client, sync} = createWorld();
+    const local = new Entity().add(new Position());
+    clientEngine.addEntity(local);
+    serverEngine.addEntity(new Entity().add(new Position(3, 3)));
+    sync();
+
+    expect(clientEngine.entities.length).toBe(2);
+    expect(client.getServerId(local)).toBeUndefined();
+    serverEngine.removeAllEntities();
+    sync();
+    expect(clientEngine.entities).toEqual([local]);
+  });
+
+  it('Lost acknowledgements and deltas do not break the client state', () => {
+    const {serverEngine, server, client} = createWorld();
+    const hero = new Entity().add(new Position());
+    serverEngine.addEntity(hero);
+    server.update();
+    client.apply(send(server.createDelta('client')));
+    server.acknowledge('client', client.sequence!);
+
+    hero.add(new Health());
+    server.update();
+    const lostAckDelta = send(server.createDelta('client'));
+    expect(client.apply(lostAckDelta)).toBeTruthy();
+
+    hero.remove(Health);
+    server.update();
+    const lostDelta = send(server.createDelta('client'));
+
+    hero.add(STUNNED);
+    server.update();
+    const delta = send(server.createDelta('client'));
+    expect(delta.baseline).toBe(1);
+    expect(client.apply(delta)).toBeTruthy();
+    expect(client.apply(lostDelta)).toBeFalsy();
+
+    const clientHero = client.getEntity(hero.id)!;
+    expect(clientHero.has(Health)).toBeFalsy();
+    expect(clientHero.has(STUNNED)).toBeTruthy();
+  });
+
+  it('Late acknowledgements are used as the baseline of next deltas', () => {
+    for (const latency of [1, 3]) {
+      const {serverEngine, server, client} = createWorld();
+      const hero = new Entity().add(new Position());
+      serverEngine.addEntity(hero);
+      const acks: number[] = [];
+      for (let tick = 1; tick <= 10; tick++) {
+        hero.get(Position)!.x = tick;
+        server.update();
+        const delta = send(server.createDelta('client'));
+        if (tick > latency + 1) {
+          expect(delta.baseline).toBe(tick - latency - 1);
+          expect(delta.created).toEqual([]);
+        }
+        expect(client.apply(delta)).toBeTruthy();
+        expect(client.getEntity(hero.id)!.get(Position)!.x).toBe(tick);
+        acks.push(client.sequence!);
+        if (acks.length > latency) {
+          server.acknowledge('client', acks.shift()!);
+        }
+      }
+    }
+  });
+
+  it('Every client gets deltas against its own acknowledged state', () => {
+    const registry = createRegistry();
+    const serverEngine = new Engine();
+    const server = new ReplicationServer(serverEngine, registry);
+    const hero = new Entity().add(new Position());
+    serverEngine.addEntity(hero);
+    server.addClient(1);
+    server.update();
+    server.acknowledge(1, server.sequence);
+
+    server.addClient(2);
+    hero.add(new Health());
+    server.update();
+    expect(server.createDelta(1).updated.length).toBe(1);
+    expect(server.createDelta(2).created.length).toBe(1);
+    expect(() => server.createDelta(3)).toThrowError('Client "3" is not added');
+  });
+});
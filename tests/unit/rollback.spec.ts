@@ -0,0 +1,298 @@
+import {
+  ComponentRegistry,
+  Engine,
+  Entity,
+  getChangeTick,
+  IterativeSystem,
+  LinkedComponent,
+  Query,
+  QueryBuilder,
+  RollbackBuffer,
+  System,
+} from '../../src';
+
+class Position {
+  public constructor(public x: number = 0, public y: number = 0) {}
+}
+
+class Velocity {
+  public constructor(public x: number = 0, public y: number = 0) {}
+}
+
+class Player {
+  public constructor(public index: number = 0) {}
+}
+
+class Projectile {
+  public constructor(public ttl: number = 0) {}
+}
+
+class Distance {
+  public constructor(public value: number = 0) {}
+}
+
+class Shot extends LinkedComponent {
+  public constructor(public frame: number = 0) {
+    super();
+  }
+}
+
+class Path {
+  public constructor(public points: Array<{x: number, y: number}> = []) {}
+}
+
+const STUNNED = 'stunned';
+const FRAME_TIME = 1 / 60;
+
+type Inputs = Record<number, Array<{player: number, dx: number, fire?: boolean}>>;
+
+class InputSystem extends System {
+  private _frame: number = 0;
+  private _players!: Query;
+
+  public constructor(private readonly inputs: Inputs) {
+    super();
+  }
+
+  public onAddedToEngine() {
+    this._players = new QueryBuilder().contains(Player).build();
+    this.engine.addQuery(this._players);
+  }
+
+  public update(dt: number) {
+    for (const input of this.inputs[this._frame] ?? []) {
+      const player = this._players.find(entity => entity.get(Player)!.index === input.player)!;
+      player.get(Velocity)!.x += input.dx * 0.1;
+      if (input.fire) {
+        const position = player.get(Position)!;
+        player.append(new Shot(this._frame));
+        this.engine.addEntity(new Entity()
+          .add(new Position(position.x, position.y))
+          .add(new Velocity(input.dx * 3.3, 0.7))
+          .add(new Projectile(7)));
+      }
+    }
+    this._frame++;
+  }
+
+  public saveState(): unknown {
+    return this._frame;
+  }
+
+  public restoreState(state: unknown): void {
+    this._frame = state as number;
+  }
+}
+
+class MovementSystem extends IterativeSystem {
+  public constructor() {
+    super(new QueryBuilder().contains(Position, Velocity).excludes(STUNNED));
+  }
+
+  protected updateEntity(entity: Entity, dt: number): void {
+    const position = entity.get(Position)!;
+    const velocity = entity.get(Velocity)!;
+    position.x += velocity.x * dt;
+    position.y += velocity.y * dt;
+    velocity.x *= 0.97;
+    velocity.y -= 9.81 * dt;
+    entity.markChanged(Position);
+  }
+}
+
+class DistanceSystem extends IterativeSystem {
+  public constructor() {
+    super(new QueryBuilder().contains(Distance).changed(Position));
+  }
+
+  protected updateEntity(entity: Entity): void {
+    const position = entity.get(Position)!;
+    entity.get(Distance)!.value += Math.sqrt(position.x * position.x + position.y * position.y) / 3;
+  }
+}
+
+class ProjectileSystem extends IterativeSystem {
+  public constructor() {
+    super(new QueryBuilder().contains(Projectile));
+  }
+
+  protected updateEntity(entity: Entity): void {
+    const projectile = entity.get(Projectile)!;
+    if (--projectile.ttl <= 0) {
+      this.engine.removeEntity(entity, true);
+    } else if (projectile.ttl === 3) {
+      entity.add(STUNNED);
+    }
+  }
+}
+
+function createSimulation(inputs: Inputs): Engine {
+  const engine = new Engine();
+  for (let i = 0; i < 2; i++) {
+    engine.addEntity(new Entity()
+      .add(new Player(i))
+      .add(new Position(i * 10, 0))
+      .add(new Velocity())
+      .add(new Distance()));
+  }
+  engine.addSystem(new InputSystem(inputs), 0);
+  engine.addSystem(new MovementSystem(), 1);
+  engine.addSystem(new DistanceSystem(), 2);
+  engine.addSystem(new ProjectileSystem(), 3);
+  return engine;
+}
+
+function createInputs(): Inputs {
+  return {
+    2: [{player: 0, dx: 1}],
+    5: [{player: 1, dx: -1, fire: true}],
+    9: [{player: 0, dx: 0.5, fire: true}, {player: 1, dx: 2}],
+    31: [{player: 0, dx: -1.5, fire: true}],
+    40: [{player: 1, dx: 0.25, fire: true}],
+  };
+}
+
+function describeWorld(engine: Engine): string {
+  const registry = new ComponentRegistry()
+    .register('position', Position)
+    .register('velocity', Velocity)
+    .register('player', Player)
+    .register('projectile', Projectile)
+    .register('distance', Distance)
+    .register('shot', Shot);
+  const document = engine.serialize(registry);
+  return JSON.stringify(document.entities.map(entity => [entity.components, entity.tags]));
+}
+
+describe('Rollback', () => {
+  it('Resimulation after rollback is bit-identical to the simulation with all inputs', () => {
+    const inputs = createInputs();
+    const expected = createSimulation(inputs);
+    for (let frame = 0; frame < 60; frame++) {
+      expected.update(FRAME_TIME);
+    }
+
+    const lateInputs = createInputs();
+    delete lateInputs[9];
+    const engine = createSimulation(lateInputs);
+    const rollback = new RollbackBuffer(engine, 64);
+    for (let frame = 0; frame < 60; frame++) {
+      rollback.save(frame);
+      engine.update(FRAME_TIME);
+    }
+    expect(describeWorld(engine)).not.toEqual(describeWorld(expected));
+
+    lateInputs[9] = inputs[9];
+    rollback.restore(9);
+    for (let frame = 9; frame < 60; frame++) {
+      rollback.save(frame);
+      engine.update(FRAME_TIME);
+    }
+    expect(describeWorld(engine)).toEqual(describeWorld(expected));
+  });
+
+  it('Restoring keeps entity instances and restores queries, pending removals and systems state', () => {
+    const engine = createSimulation({0: [{player: 0, dx: 1, fire: true}]});
+    const players = engine.entities.concat();
+    engine.update(FRAME_TIME);
+    const projectile = engine.entities[2];
+    engine.removeEntity(projectile, true);
+    const query = new QueryBuilder().contains(Position).build();
+    engine.addQuery(query);
+    const order = query.entities.concat();
+    const state = engine.saveState();
+
+    engine.update(FRAME_TIME);
+    engine.removeEntity(players[0]);
+    engine.addEntity(new Entity().add(new Position()));
+    const addedHandler = jest.fn();
+    const removedHandler = jest.fn();
+    query.onEntityAdded.connect(addedHandler);
+    query.onEntityRemoved.connect(removedHandler);
+
+    engine.restoreState(state);
+    expect(engine.entities).toEqual([players[0], players[1], projectile]);
+    expect(engine.getEntityById(projectile.id)).toBeUndefined();
+    expect(query.entities).toEqual(order);
+    expect(addedHandler).not.toHaveBeenCalled();
+    expect(removedHandler).not.toHaveBeenCalled();
+    expect(Array.from(players[0].getAll(Shot)).map(value => value.frame)).toEqual([0]);
+
+    const movable = new QueryBuilder().contains(Position, Velocity).excludes(STUNNED).build();
+    engine.addQuery(movable);
+    players[0].add(STUNNED);
+    expect(movable.has(players[0])).toBeFalsy();
+
+    engine.update(FRAME_TIME);
+    expect(engine.entities).toEqual([players[0], players[1]]);
+  });
+
+  it('Registered clone functions are used, so the state can be restored several times', () => {
+    const engine = new Engine();
+    const clone = jest.fn((path: Path) => new Path(path.points.map(point => ({x: point.x, y: point.y}))));
+    engine.registerClone(Path, clone);
+    const entity = new Entity().add(new Path([{x: 1, y: 1}]));
+    engine.addEntity(entity);
+    const state = engine.saveState();
+    expect(clone).toHaveBeenCalledTimes(1);
+
+    entity.get(Path)!.points[0].x = 5;
+    engine.restoreState(state);
+    expect(entity.get(Path)!.points[0].x).toBe(1);
+
+    entity.get(Path)!.points[0].x = 7;
+    engine.restoreState(state);
+    expect(entity.get(Path)!.points[0].x).toBe(1);
+    expect(clone).toHaveBeenCalledTimes(3);
+  });
+
+  it('Restoring works in archetype storage mode', () => {
+    const engine = new Engine({storage: 'archetype'});
+    const query = new QueryBuilder().contains(Position).excludes(STUNNED).build();
+    engine.addQuery(query);
+    const entity = new Entity().add(new Position());
+    engine.addEntity(entity);
+    const state = engine.saveState();
+
+    entity.add(STUNNED);
+    expect(query.length).toBe(0);
+    engine.restoreState(state);
+    expect(query.entities).toEqual([entity]);
+
+    entity.add(STUNNED);
+    expect(query.length).toBe(0);
+  });
+
+  it('Restoring the state does not hide changes made in other engines', () => {
+    const engine = new Engine();
+    const entity = new Entity().add(new Position());
+    engine.addEntity(entity);
+    const state = engine.saveState();
+    for (let i = 0; i < 10; i++) {
+      entity.markChanged(Position);
+    }
+
+    const otherEntity = new Entity().add(new Position());
+    new Engine().addEntity(otherEntity);
+    const tick = getChangeTick();
+    engine.restoreState(state);
+    otherEntity.markChanged(Position);
+    expect(otherEntity.isChangedSince(Position, tick)).toBeTruthy();
+    expect(entity.isChangedSince(Position, tick)).toBeFalsy();
+  });
+
+  it('Rollback buffer keeps only the recent frames', () => {
+    const engine = new Engine();
+    const rollback = new RollbackBuffer(engine, 4);
+    for (let frame = 0; frame < 6; frame++) {
+      rollback.save(frame);
+    }
+    expect(rollback.has(1)).toBeFalsy();
+    expect(rollback.has(2)).toBeTruthy();
+    expect(rollback.has(5)).toBeTruthy();
+    expect(() => rollback.restore(1)).toThrowError('State of the frame 1 is not saved');
+    rollback.clear();
+    expect(rollback.has(5)).toBeFalsy();
+    expect(() => new RollbackBuffer(engine, 0)).toThrowError();
+  });
+});
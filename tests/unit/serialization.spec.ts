@@ -0,0 +1,160 @@
+import {ComponentRegistry, Engine, Entity, LinkedComponent} from '../../src';
+
+class Position {
+  public constructor(public x: number = 0, public y: number = 0) {}
+}
+
+class View {
+  public sprite?: object;
+
+  public constructor(public asset: string) {}
+}
+
+class Damage extends LinkedComponent {
+  public constructor(public value: number, id?: string) {
+    super(id);
+  }
+}
+
+class Shape {}
+
+class Circle extends Shape {
+  public constructor(public radius: number = 1) {
+    super();
+  }
+}
+
+class OwnedBy {}
+
+const HERO = 'hero';
+const LEVEL = 1;
+
+function createRegistry(): ComponentRegistry {
+  return new ComponentRegistry()
+    .register('position', Position)
+    .register('view', View, {
+      serialize: (view) => view.asset,
+      deserialize: (data) => new View(data as string),
+    })
+    .register('damage', Damage)
+    .register('shape', Shape)
+    .register('circle', Circle)
+    .register('ownedBy', OwnedBy);
+}
+
+describe('Component registry', () => {
+  it('Returns registrations by name and class', () => {
+    const registry = createRegistry();
+    expect(registry.getByName('position')!.componentClass).toBe(Position);
+    expect(registry.getByClass(Position)!.name).toBe('position');
+    expect(registry.getByName('unknown')).toBeUndefined();
+  });
+
+  it('Registering the same name or class twice throws an error', () => {
+    const registry = createRegistry();
+    expect(() => registry.register('position', class {})).toThrowError();
+    expect(() => registry.register('position2', Position)).toThrowError();
+  });
+});
+
+describe('Engine serialization', () => {
+  it('Serialized engine is JSON-compatible', () => {
+    const engine = new Engine();
+    engine.addEntity(new Entity().add(new Position(1, 2)).add(new View('hero.png')).add(HERO));
+    engine.sharedConfig.add(new Position(5, 5)).add(LEVEL);
+
+    const document = engine.serialize(createRegistry());
+    expect(JSON.parse(JSON.stringify(document))).toEqual(document);
+    expect(document.entities[0].components).toEqual([
+      {type: 'position', data: {x: 1, y: 2}},
+      {type: 'view', data: 'hero.png'},
+    ]);
+    expect(document.entities[0].tags).toEqual([HERO]);
+    expect(document.sharedConfig.tags).toEqual([LEVEL]);
+  });
+
+  it('Deserialization restores entities, components, tags and shared config', () => {
+    const registry = createRegistry();
+    const source = new Engine();
+    source.addEntity(new Entity().add(new Position(1, 2)).add(new View('hero.png')).add(HERO));
+    source.sharedConfig.add(new Position(5, 5)).add(LEVEL);
+    const document = JSON.parse(JSON.stringify(source.serialize(registry)));
+
+    const engine = new Engine();
+    const entities = engine.deserialize(document, registry);
+    expect(entities.length).toBe(1);
+    expect(engine.entities).toEqual(entities);
+    const entity = entities[0];
+    expect(entity.get(Position)).toBeInstanceOf(Position);
+    expect(entity.get(Position)).toEqual(new Position(1, 2));
+    expect(entity.get(View)!.asset).toBe('hero.png');
+    expect(entity.has(HERO)).toBeTruthy();
+    expect(engine.sharedConfig.get(Position)).toEqual(new Position(5, 5));
+    expect(engine.sharedConfig.has(LEVEL)).toBeTruthy();
+  });
+
+  it('Linked components are restored in the order of the chain with their ids', () => {
+    const registry = createRegistry();
+    const source = new Engine();
+    source.addEntity(new Entity().append(new Damage(1, 'a')).append(new Damage(2)).append(new Damage(3, 'c')));
+
+    const engine = new Engine();
+    const [entity] = engine.deserialize(JSON.parse(JSON.stringify(source.serialize(registry))), registry);
+    const damages = Array.from(entity.getAll(Damage));
+    expect(damages.map(value => value.value)).toEqual([1, 2, 3]);
+    expect(damages.map(value => value.id)).toEqual(['a', undefined, 'c']);
+    expect(damages[0]).toBeInstanceOf(Damage);
+    expect(entity.lengthOf(Damage)).toBe(3);
+  });
+
+  it('Components added with resolve class are restored with the same resolve class', () => {
+    const registry = createRegistry();
+    const source = new Engine();
+    source.addEntity(new Entity().add(new Circle(5), Shape));
+
+    const engine = new Engine();
+    const [entity] = engine.deserialize(source.serialize(registry), registry);
+    expect(entity.get(Shape)).toBeInstanceOf(Circle);
+    expect((entity.get(Shape) as Circle).radius).toBe(5);
+    expect(entity.has(Circle)).toBeFalsy();
+  });
+
+  it('Parents and relations between serialized entities are restored', () => {
+    const registry = createRegistry();
+    const source = new Engine();
+    const player = new Entity().add(HERO);
+    const sword = new Entity().setParent(player).addRelation(OwnedBy, player);
+    const outsider = new Entity();
+    const shield = new Entity().setParent(outsider).addRelation(OwnedBy, outsider);
+    source.addEntity(player);
+    source.addEntity(sword);
+    source.addEntity(shield);
+
+    const engine = new Engine();
+    const [newPlayer, newSword, newShield] = engine.deserialize(source.serialize(registry), registry);
+    expect(newPlayer.has(HERO)).toBeTruthy();
+    expect(newSword.parent).toBe(newPlayer);
+    expect(newSword.hasRelation(OwnedBy, newPlayer)).toBeTruthy();
+    expect(newShield.parent).toBeUndefined();
+    expect(newShield.hasRelation(OwnedBy)).toBeFalsy();
+  });
+
+  it('Serializing unregistered component throws an error', () => {
+    const engine = new Engine();
+    engine.addEntity(new Entity().add(new Position()).add(new (class Unknown {})()));
+    expect(() => engine.serialize(new ComponentRegistry().register('position', Position))).toThrowError(
+      'Component class "Unknown" is not registered',
+    );
+  });
+
+  it('Deserializing unknown component name throws an error', () => {
+    const engine = new Engine();
+    const document = {
+      entities: [{id: 1, components: [{type: 'unknown', data: {}}], tags: []}],
+      sharedConfig: {id: 0, components: [], tags: []},
+    };
+    expect(() => engine.deserialize(document, createRegistry())).toThrowError(
+      'Component name "unknown" is not registered',
+    );
+  });
+});
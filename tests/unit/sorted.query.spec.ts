@@ -0,0 +1,120 @@
+import {Engine, Entity, IterativeSystem, Query, QueryBuilder} from '../../src';
+
+class Sprite {
+  public constructor(public zIndex: number = 0) {}
+}
+
+class Initiative {
+  public constructor(public value: number = 0) {}
+}
+
+const byZIndex = (a: Entity, b: Entity) => a.get(Sprite)!.zIndex - b.get(Sprite)!.zIndex;
+
+function zIndices(query: Query): number[] {
+  return query.entities.map(entity => entity.get(Sprite)!.zIndex);
+}
+
+function createSprites(engine: Engine, zIndices: number[]): Entity[] {
+  return zIndices.map(zIndex => {
+    const entity = new Entity().add(new Sprite(zIndex));
+    engine.addEntity(entity);
+    return entity;
+  });
+}
+
+describe('Sorted queries', () => {
+  for (const storage of ['entity', 'archetype'] as const) {
+    describe(`In ${storage} storage`, () => {
+      it('Entities are kept sorted, entities with equal keys keep the order they were added', () => {
+        const engine = new Engine({storage});
+        const query = new QueryBuilder().contains(Sprite).sortBy(byZIndex).build();
+        engine.addQuery(query);
+        const sprites = createSprites(engine, [5, 1, 3, 1, 9]);
+        expect(query.isSorted).toBeTruthy();
+        expect(zIndices(query)).toEqual([1, 1, 3, 5, 9]);
+        expect(query.entities[0]).toBe(sprites[1]);
+        expect(query.entities[1]).toBe(sprites[3]);
+
+        engine.removeEntity(sprites[2]);
+        sprites[0].remove(Sprite);
+        expect(zIndices(query)).toEqual([1, 1, 9]);
+        expect(query.has(sprites[4])).toBeTruthy();
+
+        engine.addEntity(new Entity().add(new Sprite(2)));
+        expect(zIndices(query)).toEqual([1, 1, 2, 9]);
+      });
+
+      it('Entity takes its new place on tracked component change or invalidation', () => {
+        const engine = new Engine({storage});
+        const query = new QueryBuilder()
+          .contains(Sprite)
+          .sortBy(byZIndex, Sprite)
+          .build();
+        engine.addQuery(query);
+        const sprites = createSprites(engine, [1, 2, 3, 4]);
+
+        sprites[0].get(Sprite)!.zIndex = 10;
+        sprites[0].markChanged(Sprite);
+        expect(zIndices(query)).toEqual([2, 3, 4, 10]);
+
+        sprites[3].get(Sprite)!.zIndex = 0;
+        sprites[3].invalidate();
+        expect(zIndices(query)).toEqual([0, 2, 3, 10]);
+        expect(query.entities.map(entity => query.entities.indexOf(entity))).toEqual([0, 1, 2, 3]);
+        expect(query.has(sprites[3])).toBeTruthy();
+      });
+    });
+  }
+
+  it('Changes of untracked components don\'t move entities', () => {
+    const engine = new Engine();
+    const query = new QueryBuilder()
+      .contains(Sprite, Initiative)
+      .sortBy((a, b) => b.get(Initiative)!.value - a.get(Initiative)!.value, Initiative)
+      .build();
+    engine.addQuery(query);
+    const first = new Entity().add(new Sprite()).add(new Initiative(5));
+    const second = new Entity().add(new Sprite()).add(new Initiative(3));
+    engine.addEntity(first);
+    engine.addEntity(second);
+    expect(query.entities).toEqual([first, second]);
+
+    second.get(Initiative)!.value = 7;
+    second.markChanged(Sprite);
+    expect(query.entities).toEqual([first, second]);
+    second.markChanged(Initiative);
+    expect(query.entities).toEqual([second, first]);
+  });
+
+  it('Queries with custom predicates can be sorted', () => {
+    const engine = new Engine();
+    const query = new Query(entity => entity.has(Sprite), {sortBy: byZIndex});
+    engine.addQuery(query);
+    createSprites(engine, [3, 2, 1]);
+    expect(zIndices(query)).toEqual([1, 2, 3]);
+  });
+
+  it('Iterative system visits entities in order, even if they are moved during the update', () => {
+    class TurnSystem extends IterativeSystem {
+      public readonly visited: number[] = [];
+
+      public constructor() {
+        super(new QueryBuilder().contains(Sprite).sortBy(byZIndex, Sprite));
+      }
+
+      protected updateEntity(entity: Entity): void {
+        const sprite = entity.get(Sprite)!;
+        this.visited.push(sprite.zIndex);
+        sprite.zIndex += 10;
+        entity.markChanged(Sprite);
+      }
+    }
+
+    const engine = new Engine();
+    const system = new TurnSystem();
+    engine.addSystem(system);
+    createSprites(engine, [3, 1, 2]);
+    engine.update(1);
+    expect(system.visited).toEqual([1, 2, 3]);
+  });
+});
@@ -0,0 +1,113 @@
+import {Engine, Entity, QueryBuilder, RollbackBuffer, SpatialIndex} from '../../src';
+
+class Position {
+  public constructor(public x: number = 0, public y: number = 0) {}
+}
+
+function createIndex(cellSize: number = 10): SpatialIndex {
+  return new SpatialIndex(new QueryBuilder().contains(Position), entity => entity.get(Position)!, cellSize, Position);
+}
+
+function createAt(engine: Engine, x: number, y: number): Entity {
+  const entity = new Entity().add(new Position(x, y));
+  engine.addEntity(entity);
+  return entity;
+}
+
+function moveTo(entity: Entity, x: number, y: number): void {
+  const position = entity.get(Position)!;
+  position.x = x;
+  position.y = y;
+  entity.markChanged(Position);
+}
+
+describe('Spatial index', () => {
+  it('Cell size should be positive', () => {
+    expect(() => createIndex(0)).toThrow('Cell size of the spatial index should be greater than zero');
+  });
+
+  it('Puts entities into cells and moves them on change', () => {
+    const engine = new Engine();
+    const index = createIndex();
+    engine.addQueryIndex(index);
+    const entity = createAt(engine, 5, -5);
+    expect(Array.from(index.keys())).toEqual(['0,-1']);
+    moveTo(entity, 25, 15);
+    expect(Array.from(index.keys())).toEqual(['2,1']);
+    entity.remove(Position);
+    expect(Array.from(index.keys())).toEqual([]);
+  });
+
+  it('Finds entities within the radius', () => {
+    const engine = new Engine();
+    const index = createIndex();
+    engine.addQueryIndex(index);
+    const far = createAt(engine, 30, 0);
+    const edge = createAt(engine, 0, 5);
+    const center = createAt(engine, 1, 1);
+    const outside = createAt(engine, 4, 4);
+    expect(index.queryRadius(0, 0, 5)).toEqual([edge, center]);
+    expect(index.queryRadius(0, 0, 30)).toEqual([far, edge, center, outside]);
+    expect(index.queryRadius(0, 0, 5, entity => entity !== center)).toEqual([edge]);
+
+    moveTo(far, -3, 0);
+    expect(index.queryRadius(0, 0, 5)).toEqual([far, edge, center]);
+  });
+
+  it('Finds entities within the bounding box', () => {
+    const engine = new Engine();
+    const index = createIndex();
+    engine.addQueryIndex(index);
+    const inside = createAt(engine, -15, 20);
+    const corner = createAt(engine, 10, 30);
+    createAt(engine, 11, 25);
+    createAt(engine, -15, 31);
+    expect(index.queryAabb(-20, 20, 10, 30)).toEqual([inside, corner]);
+    expect(index.queryAabb(-1000, -1000, 1000, 1000).length).toBe(4);
+  });
+
+  it('Finds the nearest entity', () => {
+    const engine = new Engine();
+    const index = createIndex();
+    expect(index.nearest(0, 0)).toBeUndefined();
+    engine.addQueryIndex(index);
+    const near = createAt(engine, 12, 0);
+    const diagonal = createAt(engine, 8, 8);
+    const far = createAt(engine, 200, -300);
+    expect(index.nearest(0, 0)).toBe(diagonal);
+    expect(index.nearest(0, 0, 12.5, entity => entity !== diagonal)).toBe(near);
+    expect(index.nearest(0, 0, 10)).toBeUndefined();
+    expect(index.nearest(0, 0, Infinity, entity => entity === far)).toBe(far);
+    expect(index.nearest(0, 0, Infinity, () => false)).toBeUndefined();
+  });
+
+  it('Finds the nearest entity far away from the point without checking every empty cell', () => {
+    const engine = new Engine();
+    const index = createIndex(1);
+    engine.addQueryIndex(index);
+    const far = createAt(engine, 1000000, 0);
+    const farther = createAt(engine, -1000000, 1000000);
+    expect(index.nearest(0, 0)).toBe(far);
+    expect(index.nearest(0, 0, 999999)).toBeUndefined();
+    expect(index.nearest(-1000000, 999999)).toBe(farther);
+  });
+
+  it('Results don\'t depend on the order of changes', () => {
+    const engine = new Engine();
+    const index = createIndex();
+    engine.addQueryIndex(index);
+    const entities = [createAt(engine, 0, 3), createAt(engine, 3, 0), createAt(engine, 50, 0)];
+    const rollback = new RollbackBuffer(engine, 2);
+    rollback.save(0);
+    moveTo(entities[1], 0, -3);
+    moveTo(entities[2], 50, 0);
+    moveTo(entities[0], 3, 0);
+    moveTo(entities[2], -3, 0);
+    expect(index.queryRadius(0, 0, 3)).toEqual(entities);
+    expect(index.nearest(0, 0)).toBe(entities[0]);
+
+    rollback.restore(0);
+    expect(index.queryRadius(0, 0, 3)).toEqual([entities[0], entities[1]]);
+    expect(index.nearest(0, 0)).toBe(entities[0]);
+  });
+});
@@ -0,0 +1,139 @@
+import {Engine, Entity, EntitySnapshot, IterativeSystem, QueryBuilder, ReactionSystem, System, SystemGroup} from '../../src';
+
+class Position {}
+
+class View {}
+
+class CounterSystem extends System {
+  public updates: number = 0;
+  public enabledCalls: number = 0;
+  public disabledCalls: number = 0;
+
+  public update() {
+    this.updates++;
+  }
+
+  public onEnabled() {
+    this.enabledCalls++;
+  }
+
+  public onDisabled() {
+    this.disabledCalls++;
+  }
+}
+
+class MenuSystem extends CounterSystem {
+  public readonly runsWhenPaused = true;
+}
+
+class ViewSystem extends ReactionSystem {
+  public readonly log: string[] = [];
+
+  public constructor(protected readonly bufferWhileDisabled: boolean) {
+    super(new QueryBuilder().contains(Position));
+  }
+
+  protected entityAdded = ({current, previous}: EntitySnapshot) => {
+    this.log.push(`added:${current.id}:${previous.has(View)}`);
+  };
+
+  protected entityRemoved = ({current}: EntitySnapshot) => {
+    this.log.push(`removed:${current.id}`);
+  };
+}
+
+class MovementSystem extends IterativeSystem {
+  public readonly visited: Entity[] = [];
+
+  public constructor() {
+    super(new QueryBuilder().contains(Position));
+  }
+
+  protected updateEntity(entity: Entity): void {
+    this.visited.push(entity);
+  }
+}
+
+describe('Enabling and disabling systems', () => {
+  it('Disabled systems are skipped by the update, hooks are called when the value changes', () => {
+    const engine = new Engine();
+    const system = new CounterSystem();
+    const group = new SystemGroup().addSystem(new CounterSystem());
+    engine.addSystem(system);
+    engine.addSystem(group);
+
+    system.enabled = false;
+    system.enabled = false;
+    group.enabled = false;
+    engine.update(1);
+    expect(system.updates).toBe(0);
+    expect((group.systems[0] as CounterSystem).updates).toBe(0);
+    expect(system.disabledCalls).toBe(1);
+
+    system.enabled = true;
+    group.enabled = true;
+    engine.update(1);
+    expect(system.updates).toBe(1);
+    expect((group.systems[0] as CounterSystem).updates).toBe(1);
+    expect(system.enabledCalls).toBe(1);
+  });
+
+  it('Disabled iterative system keeps its query up to date', () => {
+    const engine = new Engine();
+    const system = new MovementSystem();
+    engine.addSystem(system);
+    system.enabled = false;
+    const entity = new Entity().add(new Position());
+    engine.addEntity(entity);
+    engine.update(1);
+    expect(system.visited).toHaveLength(0);
+
+    system.enabled = true;
+    engine.update(1);
+    expect(system.visited).toEqual([entity]);
+  });
+
+  it('Disabled reaction system misses changes, unless it buffers them', () => {
+    const engine = new Engine();
+    const missing = new ViewSystem(false);
+    const buffering = new ViewSystem(true);
+    engine.addSystem(missing);
+    engine.addSystem(buffering);
+    missing.enabled = false;
+    buffering.enabled = false;
+
+    const first = new Entity().add(new View());
+    const second = new Entity().add(new Position());
+    engine.addEntity(first);
+    engine.addEntity(second);
+    first.add(new Position());
+    engine.removeEntity(second);
+    expect(buffering.log).toHaveLength(0);
+
+    missing.enabled = true;
+    buffering.enabled = true;
+    expect(missing.log).toHaveLength(0);
+    expect(buffering.log).toEqual([`added:${second.id}:false`, `added:${first.id}:true`, `removed:${second.id}`]);
+
+    engine.removeEntity(first);
+    expect(missing.log).toEqual([`removed:${first.id}`]);
+  });
+
+  it('Only systems that run when paused are updated while the engine is paused', () => {
+    const engine = new Engine();
+    const game = new CounterSystem();
+    const menu = new MenuSystem();
+    engine.addSystem(game);
+    engine.addSystem(menu);
+
+    engine.paused = true;
+    engine.update(1);
+    expect(game.updates).toBe(0);
+    expect(menu.updates).toBe(1);
+
+    engine.paused = false;
+    engine.update(1);
+    expect(game.updates).toBe(1);
+    expect(menu.updates).toBe(2);
+  });
+});
@@ -0,0 +1,152 @@
+import {Engine, System, SystemGroup} from '../../src';
+
+class LogSystem extends System {
+  public added: number = 0;
+  public removed: number = 0;
+
+  public constructor(private readonly log: string[], private readonly name: string) {
+    super();
+  }
+
+  public update(dt: number) {
+    this.log.push(`${this.name}:${dt}`);
+  }
+
+  public onAddedToEngine() {
+    this.added++;
+  }
+
+  public onRemovedFromEngine() {
+    this.removed++;
+  }
+}
+
+class InputSystem extends LogSystem {}
+
+class RenderSystem extends LogSystem {}
+
+class PhysicsSystem extends LogSystem {}
+
+describe('System phases and groups', () => {
+  it('Phases are updated in order, systems within the phase are ordered by priority', () => {
+    const log: string[] = [];
+    const engine = new Engine();
+    engine.addSystem(new RenderSystem(log, 'render'), -10, 'render');
+    engine.addSystem(new LogSystem(log, 'update2'), 2);
+    engine.addSystem(new LogSystem(log, 'update1'), 1);
+    engine.addSystem(new InputSystem(log, 'input'), 100, 'input');
+    engine.addSystem(new LogSystem(log, 'post'), 0, 'postUpdate');
+
+    engine.update(1);
+    expect(log).toEqual(['input:1', 'update1:1', 'update2:1', 'post:1', 'render:1']);
+    expect(engine.systems.map(system => system.phase)).toEqual(['input', 'update', 'update', 'postUpdate', 'render']);
+  });
+
+  it('Custom phases can be defined', () => {
+    const log: string[] = [];
+    const engine = new Engine({phases: ['logic', 'view']});
+    expect(engine.phases).toEqual(['logic', 'view']);
+    engine.addSystem(new LogSystem(log, 'view'), 0, 'view');
+    engine.addSystem(new LogSystem(log, 'logic'), 0, 'logic');
+    engine.update(1);
+    expect(log).toEqual(['logic:1', 'view:1']);
+    expect(() => engine.addSystem(new LogSystem(log, 'update'))).toThrowError('Phase "update" is not defined in the engine');
+  });
+
+  it('Groups update their systems in order of priority with their own delta time', () => {
+    const log: string[] = [];
+    const engine = new Engine();
+    const nested = new SystemGroup().addSystem(new PhysicsSystem(log, 'physics'));
+    const group = new SystemGroup()
+      .addSystem(new LogSystem(log, 'second'), 2)
+      .addSystem(nested, 1)
+      .addSystem(new LogSystem(log, 'first'), 0);
+    engine.addSystem(group);
+
+    engine.update(1);
+    expect(log).toEqual(['first:1', 'physics:1', 'second:1']);
+
+    log.length = 0;
+    nested.dt = 0.5;
+    engine.update(1);
+    expect(log).toEqual(['first:1', 'physics:0.5', 'second:1']);
+
+    log.length = 0;
+    group.dt = 2;
+    nested.dt = undefined;
+    engine.update(1);
+    expect(log).toEqual(['first:2', 'physics:2', 'second:2']);
+  });
+
+  it('Disabled groups don\'t update their systems', () => {
+    const log: string[] = [];
+    const engine = new Engine();
+    const group = new SystemGroup().addSystem(new LogSystem(log, 'grouped'));
+    engine.addSystem(group);
+    engine.addSystem(new LogSystem(log, 'free'), 1);
+
+    group.enabled = false;
+    engine.update(1);
+    expect(log).toEqual(['free:1']);
+  });
+
+  it('Systems of groups are added to and removed from the engine together with the group', () => {
+    const log: string[] = [];
+    const engine = new Engine();
+    const physics = new PhysicsSystem(log, 'physics');
+    const group = new SystemGroup().addSystem(new SystemGroup().addSystem(physics));
+    expect(() => physics.engine).toThrowError();
+
+    engine.addSystem(group);
+    expect(physics.engine).toBe(engine);
+    expect(physics.added).toBe(1);
+    expect(engine.getSystem(PhysicsSystem)).toBe(physics);
+
+    const render = new RenderSystem(log, 'render');
+    group.addSystem(render);
+    expect(render.engine).toBe(engine);
+    expect(engine.getSystem(RenderSystem)).toBe(render);
+    group.removeSystem(render);
+    expect(render.removed).toBe(1);
+    expect(engine.getSystem(RenderSystem)).toBeUndefined();
+
+    engine.removeSystem(group);
+    expect(physics.removed).toBe(1);
+    expect(() => physics.engine).toThrowError();
+  });
+
+  it('Systems requested removal are removed from the group', () => {
+    class OnceSystem extends System {
+      public update() {
+        this.requestRemoval();
+      }
+    }
+
+    const engine = new Engine();
+    const group = new SystemGroup().addSystem(new OnceSystem());
+    engine.addSystem(group);
+    engine.update(1);
+    expect(group.systems).toHaveLength(0);
+    expect(engine.systems).toEqual([group]);
+  });
+
+  it('System next to the one requested removal is still updated in the same frame', () => {
+    class OnceSystem extends System {
+      public update() {
+        this.requestRemoval();
+      }
+    }
+
+    const log: string[] = [];
+    const engine = new Engine();
+    const next = new LogSystem(log, 'next');
+    const group = new SystemGroup().addSystem(new OnceSystem()).addSystem(next);
+    engine.addSystem(group);
+    engine.addSystem(new OnceSystem(), 1);
+    engine.addSystem(new LogSystem(log, 'engine'), 2);
+    engine.update(1);
+    expect(log).toEqual(['next:1', 'engine:1']);
+    expect(group.systems).toEqual([next]);
+    expect(engine.systems).toHaveLength(2);
+  });
+});
@@ -0,0 +1,109 @@
+import {Engine, System, SystemGroup} from '../../src';
+
+class InputSystem extends System {
+  public readonly runsBefore = [MovementSystem];
+}
+
+class MovementSystem extends System {}
+
+class CollisionSystem extends System {
+  public readonly runsAfter = [MovementSystem];
+}
+
+class DamageSystem extends System {
+  public readonly runsAfter = [CollisionSystem];
+  public readonly runsBefore = [InputSystem];
+}
+
+class ViewSystem extends System {}
+
+function permutations<T>(values: T[]): T[][] {
+  if (values.length <= 1) return [values];
+  const result: T[][] = [];
+  values.forEach((value, index) => {
+    const rest = values.filter((_, i) => i !== index);
+    for (const permutation of permutations(rest)) {
+      result.push([value, ...permutation]);
+    }
+  });
+  return result;
+}
+
+describe('System ordering constraints', () => {
+  it('Systems are sorted by constraints regardless of the insertion order', () => {
+    const classes = [CollisionSystem, MovementSystem, InputSystem];
+    for (const permutation of permutations(classes)) {
+      const engine = new Engine();
+      for (const systemClass of permutation) {
+        engine.addSystem(new systemClass());
+      }
+      expect(engine.systems.map(system => system.constructor)).toEqual([InputSystem, MovementSystem, CollisionSystem]);
+    }
+  });
+
+  it('Constraints take precedence over priority, priority orders the rest', () => {
+    const engine = new Engine();
+    engine.addSystem(new ViewSystem(), 1);
+    engine.addSystem(new CollisionSystem(), -10);
+    engine.addSystem(new MovementSystem(), 5);
+    engine.addSystem(new InputSystem(), 10);
+    expect(engine.systems.map(system => system.constructor)).toEqual([
+      ViewSystem,
+      InputSystem,
+      MovementSystem,
+      CollisionSystem,
+    ]);
+  });
+
+  it('Constraints between systems of different phases throw error', () => {
+    const engine = new Engine();
+    engine.addSystem(new InputSystem(), 0, 'render');
+    const movementSystem = new MovementSystem();
+    expect(() => engine.addSystem(movementSystem, 5, 'update')).toThrowError(
+      'System InputSystem of phase "render" can\'t run before MovementSystem of phase "update"',
+    );
+    expect(engine.systems.map(system => system.constructor)).toEqual([InputSystem]);
+    expect(movementSystem.priority).toBe(0);
+    expect(movementSystem.phase).toBeUndefined();
+  });
+
+  it('Systems of the group are sorted by constraints', () => {
+    const group = new SystemGroup()
+      .addSystem(new CollisionSystem())
+      .addSystem(new MovementSystem());
+    expect(group.systems.map(system => system.constructor)).toEqual([MovementSystem, CollisionSystem]);
+  });
+
+  it('Cycle in constraints throws error listing the cycle', () => {
+    const engine = new Engine();
+    engine.addSystem(new ViewSystem());
+    engine.addSystem(new InputSystem());
+    engine.addSystem(new MovementSystem());
+    engine.addSystem(new CollisionSystem());
+    const damageSystem = new DamageSystem();
+    expect(() => engine.addSystem(damageSystem, 10)).toThrowError(
+      'Ordering constraints of the systems have a cycle: ' +
+      'InputSystem -> MovementSystem -> CollisionSystem -> DamageSystem -> InputSystem',
+    );
+    expect(engine.systems.map(system => system.constructor)).toEqual([
+      ViewSystem,
+      InputSystem,
+      MovementSystem,
+      CollisionSystem,
+    ]);
+    expect(() => damageSystem.engine).toThrowError();
+    expect(damageSystem.priority).toBe(0);
+    expect(damageSystem.phase).toBeUndefined();
+  });
+
+  it('Cycle in constraints of the group leaves the group unchanged', () => {
+    const group = new SystemGroup()
+      .addSystem(new InputSystem())
+      .addSystem(new MovementSystem())
+      .addSystem(new CollisionSystem());
+    const damageSystem = new DamageSystem();
+    expect(() => group.addSystem(damageSystem, 10)).toThrowError('Ordering constraints of the systems have a cycle');
+    expect(group.systems.map(system => system.constructor)).toEqual([InputSystem, MovementSystem, CollisionSystem]);
+    expect(damageSystem.priority).toBe(0);
+  });
+});
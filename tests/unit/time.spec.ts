@@ -0,0 +1,80 @@
+import {Engine, Entity, IterativeSystem, QueryBuilder, System, SystemGroup} from '../../src';
+
+class Position {
+  public x: number = 0;
+}
+
+class MovementSystem extends IterativeSystem {
+  public constructor() {
+    super(new QueryBuilder().contains(Position));
+  }
+
+  protected updateEntity(entity: Entity, dt: number): void {
+    entity.get(Position)!.x += dt;
+  }
+}
+
+class LogSystem extends System {
+  public readonly log: number[] = [];
+
+  public update(dt: number) {
+    this.log.push(dt);
+  }
+}
+
+describe('Time', () => {
+  it('Engine keeps track of the elapsed time and frames', () => {
+    const engine = new Engine();
+    engine.update(0.5);
+    engine.time.scale = 0.5;
+    engine.update(0.5);
+    expect(engine.time.frameCount).toBe(2);
+    expect(engine.time.dt).toBe(0.25);
+    expect(engine.time.unscaledDt).toBe(0.5);
+    expect(engine.time.elapsed).toBe(0.75);
+    expect(engine.time.unscaledElapsed).toBe(1);
+  });
+
+  it('Global, group and system time scales are applied to delta time', () => {
+    const engine = new Engine();
+    const movement = new MovementSystem();
+    const grouped = new LogSystem();
+    const free = new LogSystem();
+    const group = new SystemGroup().addSystem(movement).addSystem(grouped);
+    engine.addSystem(group);
+    engine.addSystem(free);
+    const entity = new Entity().add(new Position());
+    engine.addEntity(entity);
+
+    engine.time.scale = 0.5;
+    group.timeScale = 0.5;
+    grouped.timeScale = 4;
+    engine.update(1);
+    expect(entity.get(Position)!.x).toBe(0.25);
+    expect(grouped.log).toEqual([1]);
+    expect(free.log).toEqual([0.5]);
+  });
+
+  it('Global time scale slows down the fixed loop', () => {
+    class PhysicsSystem extends LogSystem {
+      public readonly updateLoop = 'fixed';
+    }
+
+    const engine = new Engine({fixedTimeStep: 0.25});
+    const physics = new PhysicsSystem();
+    engine.addSystem(physics);
+    engine.time.scale = 0.5;
+    engine.update(1);
+    expect(physics.log).toEqual([0.25, 0.25]);
+  });
+
+  it('Time is restored with the engine state', () => {
+    const engine = new Engine();
+    engine.update(0.5);
+    const state = engine.saveState();
+    engine.update(0.5);
+    engine.restoreState(state);
+    expect(engine.time.frameCount).toBe(1);
+    expect(engine.time.elapsed).toBe(0.5);
+  });
+});
@@ -0,0 +1,80 @@
+import {Engine, Entity, Query, QueryBuilder, QueryTuple, TypedIterativeSystem} from '../../src';
+
+class Position {
+  public constructor(public x: number = 0, public y: number = 0) {}
+}
+
+class Velocity {
+  public constructor(public x: number = 0, public y: number = 0) {}
+}
+
+class Mass {
+  public constructor(public value: number = 1) {}
+}
+
+const PLAYER = 'player';
+
+function createEntity(engine: Engine, x: number, vx: number): Entity {
+  const entity = new Entity().add(new Position(x)).add(new Velocity(vx)).addTag(PLAYER);
+  engine.addEntity(entity);
+  return entity;
+}
+
+describe('Typed queries', () => {
+  it('Tuples contain entity and components in the order they were specified, tags are skipped', () => {
+    const engine = new Engine();
+    const query: Query<[Velocity, Position]> = new QueryBuilder()
+      .contains(Velocity, PLAYER)
+      .changed(Position)
+      .build();
+    engine.addQuery(query);
+    const entity = createEntity(engine, 1, 2);
+    const [tupleEntity, velocity, position] = query.getTuple(entity);
+    expect(tupleEntity).toBe(entity);
+    expect(velocity).toBe(entity.get(Velocity));
+    expect(position).toBe(entity.get(Position));
+  });
+
+  it('Iteration over tuples reuses the same tuple', () => {
+    const engine = new Engine();
+    const query = new QueryBuilder().contains(Position).contains(Velocity).build();
+    engine.addQuery(query);
+    createEntity(engine, 1, 2);
+    createEntity(engine, 10, 20);
+    const tuples: Array<QueryTuple<[Position, Velocity]>> = [];
+    const positions: number[] = [];
+    for (const tuple of query.tuples()) {
+      const [, position, velocity] = tuple;
+      position.x += velocity.x;
+      positions.push(position.x);
+      tuples.push(tuple);
+    }
+    expect(positions).toEqual([3, 30]);
+    expect(tuples[0]).toBe(tuples[1]);
+  });
+
+  it('Typed iterative system receives tuples', () => {
+    class MovementSystem extends TypedIterativeSystem<[Position, Velocity, Mass]> {
+      public constructor() {
+        super(new QueryBuilder().contains(Position, Velocity).added(Mass), {budget: {entities: 1}});
+      }
+
+      protected updateEntity([entity, position, velocity, mass]: QueryTuple<[Position, Velocity, Mass]>, dt: number) {
+        expect(entity.get(Mass)).toBe(mass);
+        position.x += velocity.x * dt / mass.value;
+      }
+    }
+
+    const engine = new Engine();
+    engine.addSystem(new MovementSystem());
+    const first = createEntity(engine, 0, 1);
+    const second = createEntity(engine, 0, 1);
+    first.add(new Mass(2));
+    second.add(new Mass(1));
+    engine.update(1);
+    expect(first.get(Position)!.x).toBe(0.5);
+    expect(second.get(Position)!.x).toBe(0);
+    engine.update(1);
+    expect(second.get(Position)!.x).toBe(1);
+  });
+});